@@ -0,0 +1,107 @@
+import { timingSafeEqual } from 'crypto';
+import { start } from 'workflow/api';
+import {
+  findLeadForReply,
+  InboundEmail,
+  parseInboundPayload,
+  parseRawEmail,
+  recordLeadReply
+} from '@/lib/replies';
+import { suppressAddress } from '@/lib/services';
+import { workflowReply } from '@/workflows/reply';
+
+function isSecretMatch(provided: string | null, secret: string) {
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided ?? '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Inbound email webhook
+ *
+ * POST /api/email/inbound
+ * Body: raw RFC 822 message (`message/rfc822` or `text/plain`), or a
+ * provider-style JSON / form payload (Postmark, Mailgun, SendGrid, ...)
+ *
+ * Matches the reply to a lead and starts the reply workflow. Bounce
+ * notifications add the failed address to the suppression list instead.
+ * `EMAIL_INBOUND_SECRET` must be sent as the `x-inbound-secret` header or
+ * `secret` query parameter; it is only optional in development.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.EMAIL_INBOUND_SECRET;
+  if (!secret && process.env.NODE_ENV !== 'development') {
+    return Response.json(
+      { error: 'EMAIL_INBOUND_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+  if (secret) {
+    const provided =
+      request.headers.get('x-inbound-secret') ??
+      new URL(request.url).searchParams.get('secret');
+    if (!isSecretMatch(provided, secret)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  let email: InboundEmail;
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+
+    if (contentType.includes('application/json')) {
+      email = await parseInboundPayload(await request.json());
+    } else if (
+      contentType.includes('multipart/form-data') ||
+      contentType.includes('application/x-www-form-urlencoded')
+    ) {
+      const form = await request.formData();
+      email = await parseInboundPayload(
+        Object.fromEntries(
+          [...form.entries()].filter(([, value]) => typeof value === 'string')
+        )
+      );
+    } else {
+      email = await parseRawEmail(await request.text());
+    }
+  } catch (error) {
+    console.error('Error parsing inbound email:', error);
+    return Response.json({ error: 'Invalid email payload' }, { status: 400 });
+  }
+
+  const lead = await findLeadForReply(email);
+
+  if (email.bounce) {
+    const recipient = email.bounce.recipient ?? lead?.input.email;
+    if (recipient) {
+      await suppressAddress(recipient, 'bounce', 'dsn');
+    }
+    return Response.json(
+      { matched: !!lead, leadId: lead?.id, bounce: recipient ?? null },
+      { status: 200 }
+    );
+  }
+
+  if (!lead) {
+    // Acknowledge so the provider does not retry mail we can't match
+    return Response.json({ matched: false }, { status: 200 });
+  }
+
+  if (
+    email.messageId &&
+    lead.replies?.some((reply) => reply.messageId === email.messageId)
+  ) {
+    return Response.json(
+      { matched: true, leadId: lead.id, duplicate: true },
+      { status: 200 }
+    );
+  }
+
+  const reply = await recordLeadReply(lead, email);
+  await start(workflowReply, [lead.id, reply.id]);
+
+  return Response.json(
+    { matched: true, leadId: lead.id, replyId: reply.id },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,65 @@
+import { getLeadStore, sequenceStopStatuses } from '@/lib/lead-store';
+import { stopLeadSequence } from '@/lib/services';
+import { leadStatusSchema } from '@/lib/types';
+
+/**
+ * GET /api/leads/:id
+ *
+ * Returns the full stored lead record including every workflow step's output
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lead = await getLeadStore().get(id);
+
+  if (!lead) {
+    return Response.json({ error: 'Lead not found' }, { status: 404 });
+  }
+
+  return Response.json({ lead }, { status: 200 });
+}
+
+/**
+ * PATCH /api/leads/:id
+ * Body: { status: "REPLIED" | "MEETING_BOOKED" | "UNSUBSCRIBED" | "BOUNCED" | "CLOSED" }
+ *
+ * Records a lead outcome (e.g. from a calendar or CRM webhook) and cancels
+ * any pending follow-ups
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedStatus = leadStatusSchema.safeParse(body?.status);
+  if (
+    !parsedStatus.success ||
+    !sequenceStopStatuses.includes(parsedStatus.data)
+  ) {
+    return Response.json(
+      { error: `status must be one of ${sequenceStopStatuses.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const lead = await getLeadStore().get(id);
+  if (!lead) {
+    return Response.json({ error: 'Lead not found' }, { status: 404 });
+  }
+
+  const updated = await stopLeadSequence(lead, parsedStatus.data);
+
+  return Response.json({ lead: updated }, { status: 200 });
+}
@@ -0,0 +1,79 @@
+import { getLeadStore } from '@/lib/lead-store';
+import {
+  sequenceResumeHook,
+  sequenceResumeToken
+} from '@/workflows/shared/hooks';
+
+/**
+ * GET /api/leads/:id/sequence
+ *
+ * Returns the per-touchpoint state of an outbound sequence
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lead = await getLeadStore().get(id);
+
+  if (!lead || lead.source !== 'outbound') {
+    return Response.json({ error: 'Outbound lead not found' }, { status: 404 });
+  }
+
+  return Response.json(
+    {
+      paused: lead.sequencePaused ?? false,
+      touchPoints: lead.touchPoints ?? []
+    },
+    { status: 200 }
+  );
+}
+
+/**
+ * POST /api/leads/:id/sequence
+ * Body: { action: "pause" | "resume" }
+ *
+ * Pauses or resumes an outbound sequence. Touchpoints that come due while
+ * paused are executed as soon as the sequence is resumed.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  if (body?.action !== 'pause' && body?.action !== 'resume') {
+    return Response.json(
+      { error: 'action must be "pause" or "resume"' },
+      { status: 400 }
+    );
+  }
+
+  const store = getLeadStore();
+  const lead = await store.get(id);
+  if (!lead || lead.source !== 'outbound') {
+    return Response.json({ error: 'Outbound lead not found' }, { status: 404 });
+  }
+
+  const paused = body.action === 'pause';
+  await store.update(id, { sequencePaused: paused });
+
+  if (!paused) {
+    try {
+      await sequenceResumeHook.resume(sequenceResumeToken(id), {});
+    } catch {
+      // The sequence isn't running yet (or has finished) - the flag is enough
+    }
+  }
+
+  return Response.json({ paused }, { status: 200 });
+}
@@ -0,0 +1,34 @@
+import { getLeadStore } from '@/lib/lead-store';
+import { leadSourceSchema, leadStatusSchema } from '@/lib/types';
+
+/**
+ * Lead records API endpoint
+ *
+ * GET /api/leads?source=inbound&status=AWAITING_APPROVAL&email=jane@acme.com&assignedRepId=ae-1
+ *
+ * Lists stored leads, newest first
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const source = searchParams.get('source');
+  const parsedSource = source ? leadSourceSchema.safeParse(source) : null;
+  if (parsedSource && !parsedSource.success) {
+    return Response.json({ error: 'Invalid source' }, { status: 400 });
+  }
+
+  const status = searchParams.get('status');
+  const parsedStatus = status ? leadStatusSchema.safeParse(status) : null;
+  if (parsedStatus && !parsedStatus.success) {
+    return Response.json({ error: 'Invalid status' }, { status: 400 });
+  }
+
+  const leads = await getLeadStore().find({
+    source: parsedSource?.data,
+    status: parsedStatus?.data,
+    email: searchParams.get('email') || undefined,
+    assignedRepId: searchParams.get('assignedRepId') || undefined
+  });
+
+  return Response.json({ leads }, { status: 200 });
+}
@@ -0,0 +1,54 @@
+import { start } from 'workflow/api';
+import {
+  outboundAccountSchema,
+  workflowAccountOutbound
+} from '@/workflows/account';
+
+/**
+ * Account-based outbound API endpoint
+ *
+ * POST /api/outbound/account
+ * Body: { company, companyWebsite, campaignType, contacts: [{ name, email, title, linkedinUrl, targetPersona }] }
+ *
+ * Researches the account once, then runs persona-specific qualification,
+ * messaging and coordinated sequences for each contact
+ */
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parsedBody = outboundAccountSchema.safeParse(body);
+    if (!parsedBody.success) {
+      return Response.json(
+        { error: 'Invalid request body', details: parsedBody.error.message },
+        { status: 400 }
+      );
+    }
+
+    const run = await start(workflowAccountOutbound, [parsedBody.data]);
+
+    return Response.json(
+      {
+        message: 'Account-based outbound workflow started successfully',
+        accountId: run.runId,
+        company: parsedBody.data.company,
+        contacts: parsedBody.data.contacts.length
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error starting account-based outbound workflow:', error);
+    return Response.json(
+      { error: 'Failed to start account-based outbound workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { getBatchProgress, getOutboundBatch } from '@/lib/outbound-batch';
+
+/**
+ * GET /api/outbound/batch/:id
+ *
+ * Returns the batch's progress (row outcomes and lead statuses) and its rows
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const batch = await getOutboundBatch(id);
+
+  if (!batch) {
+    return Response.json({ error: 'Batch not found' }, { status: 404 });
+  }
+
+  const progress = await getBatchProgress(batch);
+
+  return Response.json(
+    {
+      batchId: batch.id,
+      status: batch.status,
+      concurrency: batch.concurrency,
+      createdAt: batch.createdAt,
+      progress,
+      rows: batch.rows
+    },
+    { status: 200 }
+  );
+}
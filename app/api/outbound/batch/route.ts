@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { start } from 'workflow/api';
+import {
+  createOutboundBatch,
+  getDefaultBatchConcurrency,
+  MAX_BATCH_ROWS,
+  parseCsv,
+  updateOutboundBatch,
+  validateBatchRows
+} from '@/lib/outbound-batch';
+import { outboundProspectSchema } from '@/workflows/outbound';
+import { workflowOutboundBatch } from '@/workflows/outbound-batch';
+
+const prospectFieldSchema = outboundProspectSchema.keyof();
+
+const batchRequestSchema = z
+  .object({
+    prospects: z.array(z.record(z.string(), z.unknown())).optional(),
+    csv: z.string().optional(),
+    mapping: z.record(z.string(), prospectFieldSchema).optional(),
+    concurrency: z.coerce.number().int().min(1).max(50).optional()
+  })
+  .refine((body) => !!body.prospects !== !!body.csv, {
+    message: 'Provide exactly one of prospects or csv'
+  });
+
+/**
+ * Read the request as JSON, or as a raw CSV body with `mapping` (JSON) and
+ * `concurrency` query parameters
+ */
+async function readBatchRequest(request: Request) {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/json')) {
+    return request.json();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const mapping = searchParams.get('mapping');
+
+  return {
+    csv: await request.text(),
+    mapping: mapping ? JSON.parse(mapping) : undefined,
+    concurrency: searchParams.get('concurrency') ?? undefined
+  };
+}
+
+/**
+ * Bulk outbound prospecting API endpoint
+ *
+ * POST /api/outbound/batch
+ * Body: { prospects: [...] | csv: "...", mapping?: { "Work Email": "email", ... }, concurrency? }
+ *   or a raw `text/csv` body with `?mapping=<json>&concurrency=<n>`
+ *
+ * Validates every row against `outboundProspectSchema`, returns a per-row
+ * accept/reject report and starts the accepted prospects in the background.
+ * Track progress with `GET /api/outbound/batch/:id`.
+ */
+export async function POST(request: Request) {
+  let parsedBody;
+  try {
+    parsedBody = batchRequestSchema.safeParse(await readBatchRequest(request));
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid request body', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { prospects, csv, mapping, concurrency } = parsedBody.data;
+  const records = prospects ?? parseCsv(csv!);
+
+  if (records.length === 0) {
+    return Response.json({ error: 'No rows to import' }, { status: 400 });
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    return Response.json(
+      { error: `A batch can contain at most ${MAX_BATCH_ROWS} rows` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rows = validateBatchRows(records, mapping);
+    const batchConcurrency = concurrency ?? getDefaultBatchConcurrency();
+    let batch = await createOutboundBatch(rows, batchConcurrency);
+
+    if (batch.status === 'running') {
+      const run = await start(workflowOutboundBatch, [
+        batch.id,
+        batchConcurrency
+      ]);
+      batch = await updateOutboundBatch(batch.id, () => ({
+        workflowRunId: run.runId
+      }));
+    }
+
+    const accepted = rows.filter((row) => row.status === 'queued').length;
+
+    return Response.json(
+      {
+        batchId: batch.id,
+        accepted,
+        rejected: rows.length - accepted,
+        rows: rows.map(({ row, status, prospect, errors }) => ({
+          row,
+          status: status === 'queued' ? 'accepted' : status,
+          email: prospect?.email,
+          errors
+        }))
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting outbound batch:', error);
+    return Response.json(
+      { error: 'Failed to start outbound batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  computeFairness,
+  getRotations,
+  listAssignments
+} from '@/lib/round-robin';
+import { getSalesTeam } from '@/lib/sales-team';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Routing fairness API endpoint
+ *
+ * GET /api/routing/fairness?since=2026-10-01&until=2026-11-01&pool=group:smb
+ *
+ * How evenly leads assigned in the period (last 30 days by default) were
+ * spread over reps, relative to their `routingWeight`. With `pool` (a
+ * round-robin group as `group:<name>` or a rule as `rule:<id>`) only that
+ * rotation is measured.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const until = searchParams.get('until')
+    ? new Date(searchParams.get('until')!)
+    : new Date();
+  const since = searchParams.get('since')
+    ? new Date(searchParams.get('since')!)
+    : new Date(until.getTime() - 30 * DAY_MS);
+  if (isNaN(since.getTime()) || isNaN(until.getTime())) {
+    return Response.json(
+      { error: 'since and until must be ISO dates' },
+      { status: 400 }
+    );
+  }
+
+  const pool = searchParams.get('pool') || undefined;
+  const [team, rotations, assignments] = await Promise.all([
+    getSalesTeam(),
+    getRotations(),
+    listAssignments({ since, until, pool })
+  ]);
+
+  if (pool && !rotations[pool]) {
+    return Response.json(
+      { error: `No round-robin rotation found for ${pool}` },
+      { status: 404 }
+    );
+  }
+
+  const reps = team.filter((member) =>
+    pool ? member.id in rotations[pool] : member.role !== 'TEAM_LEAD'
+  );
+  const fairness = computeFairness(
+    reps.map((member) => ({
+      id: member.id,
+      weight: member.routingWeight ?? 1
+    })),
+    assignments
+  );
+
+  return Response.json(
+    {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      pool: pool ?? null,
+      ...fairness
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  findUnknownRuleReps,
+  getRoutingRules,
+  getRoutingRulesFile,
+  resetRoutingRules,
+  RoutingRulesConfigError,
+  routingRulesSchema,
+  saveRoutingRules
+} from '@/lib/routing-rules';
+import { getSalesTeam } from '@/lib/sales-team';
+
+function configErrorResponse(error: unknown) {
+  if (error instanceof RoutingRulesConfigError) {
+    return Response.json({ error: error.message }, { status: 409 });
+  }
+  throw error;
+}
+
+/**
+ * GET /api/routing/rules
+ *
+ * Lists the routing rules in evaluation order
+ */
+export async function GET() {
+  const rules = await getRoutingRules();
+
+  return Response.json(
+    { rules, source: getRoutingRulesFile() ? 'file' : 'store' },
+    { status: 200 }
+  );
+}
+
+/**
+ * PUT /api/routing/rules
+ * Body: { rules: RoutingRule[] }
+ *
+ * Replaces the rule set; routing uses it from the next lead
+ */
+export async function PUT(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedBody = routingRulesSchema.safeParse(body?.rules);
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid routing rules', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  const team = await getSalesTeam({ includeInactive: true });
+  const unknownReps = findUnknownRuleReps(
+    parsedBody.data,
+    team.map((member) => member.id)
+  );
+  if (unknownReps.length > 0) {
+    return Response.json(
+      { error: `Unknown sales team members: ${unknownReps.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rules = await saveRoutingRules(parsedBody.data);
+    return Response.json({ rules }, { status: 200 });
+  } catch (error) {
+    return configErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/routing/rules
+ *
+ * Goes back to the default rules
+ */
+export async function DELETE() {
+  try {
+    const rules = await resetRoutingRules();
+    return Response.json({ rules }, { status: 200 });
+  } catch (error) {
+    return configErrorResponse(error);
+  }
+}
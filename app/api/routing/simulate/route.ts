@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { getLeadStore } from '@/lib/lead-store';
+import { routingRulesSchema } from '@/lib/routing-rules';
+import {
+  getLeadRoutingContext,
+  replayLeads,
+  simulateRouting
+} from '@/lib/routing-simulation';
+import { salesTeamSchema } from '@/lib/sales-team';
+import { parseLocation } from '@/lib/territories';
+import { qualificationSchema } from '@/lib/types';
+
+const simulateRequestSchema = z
+  .object({
+    qualification: qualificationSchema.optional(),
+    // Lead location for a raw qualification, e.g. "Berlin, Germany"
+    location: z.string().optional(),
+    leadId: z.string().optional(),
+    replay: z
+      .object({
+        since: z.iso.datetime().optional(),
+        until: z.iso.datetime().optional(),
+        limit: z.number().int().min(1).max(500).default(100)
+      })
+      .optional(),
+    // Alternative configuration to route with
+    team: salesTeamSchema.optional(),
+    rules: routingRulesSchema.optional()
+  })
+  .refine(
+    (body) =>
+      [body.qualification, body.leadId, body.replay].filter(Boolean).length ===
+      1,
+    { message: 'Provide exactly one of qualification, leadId or replay' }
+  );
+
+/**
+ * Routing simulation API endpoint
+ *
+ * POST /api/routing/simulate
+ * Body: { qualification, location? } | { leadId } | { replay: { since?, until?, limit? } }
+ *       plus optional { team, rules } to route with instead of the live config
+ *
+ * Routes a lead without assigning it and returns the pick with every rep
+ * ranked and what eliminated them, or replays past inbound leads to preview
+ * how a routing change would redistribute them. Nothing is persisted.
+ */
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedBody = simulateRequestSchema.safeParse(body);
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid request body', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { qualification, location, leadId, replay, team, rules } =
+    parsedBody.data;
+  const overrides = { team, rules };
+
+  if (replay) {
+    const result = await replayLeads(replay, overrides);
+    return Response.json(result, { status: 200 });
+  }
+
+  if (leadId) {
+    const lead = await getLeadStore().get(leadId);
+    if (!lead) {
+      return Response.json({ error: 'Lead not found' }, { status: 404 });
+    }
+    if (lead.source !== 'inbound' || !lead.qualification) {
+      return Response.json(
+        { error: 'Only qualified inbound leads can be routed' },
+        { status: 400 }
+      );
+    }
+
+    const simulation = await simulateRouting(
+      lead.qualification,
+      getLeadRoutingContext(lead),
+      overrides
+    );
+    return Response.json(
+      { leadId, currentRepId: lead.assignedRepId ?? null, ...simulation },
+      { status: 200 }
+    );
+  }
+
+  const parsedLocation = location ? parseLocation(location) : null;
+  const simulation = await simulateRouting(
+    qualification!,
+    {
+      region: parsedLocation ? { ...parsedLocation, source: 'form' } : null,
+      source: 'inbound'
+    },
+    overrides
+  );
+  return Response.json(simulation, { status: 200 });
+}
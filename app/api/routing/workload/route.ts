@@ -0,0 +1,32 @@
+import { getRepWorkloads } from '@/lib/rep-workload';
+import { getSalesTeam } from '@/lib/sales-team';
+
+/**
+ * Rep workload API endpoint
+ *
+ * GET /api/routing/workload
+ *
+ * Current number of open leads per rep, as used by routing
+ */
+export async function GET() {
+  const [team, workloads] = await Promise.all([
+    getSalesTeam(),
+    getRepWorkloads()
+  ]);
+
+  const reps = team.map((member) => {
+    const activeLeads = workloads[member.id] ?? 0;
+
+    return {
+      id: member.id,
+      name: member.name,
+      role: member.role,
+      activeLeads,
+      maxActiveLeads: member.maxActiveLeads ?? null,
+      atCapacity:
+        !!member.maxActiveLeads && activeLeads >= member.maxActiveLeads
+    };
+  });
+
+  return Response.json({ reps }, { status: 200 });
+}
@@ -0,0 +1,115 @@
+import { salesTeamMemberSchema } from '@/lib/lead-routing';
+import {
+  deactivateSalesTeamMember,
+  getSalesTeamMember,
+  SalesTeamConfigError,
+  updateSalesTeamMember
+} from '@/lib/sales-team';
+
+const memberPatchSchema = salesTeamMemberSchema.omit({ id: true }).partial();
+
+/**
+ * GET /api/sales-team/:id
+ *
+ * Returns a rep, including inactive ones
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const member = await getSalesTeamMember(id);
+    if (!member) {
+      return Response.json(
+        { error: 'Sales team member not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({ member }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SalesTeamConfigError) {
+      return Response.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
+
+/**
+ * PATCH /api/sales-team/:id
+ * Body: any SalesTeamMember fields except id (e.g. { "active": true })
+ *
+ * Edits a rep; routing uses the change on the next lead
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedBody = memberPatchSchema.safeParse(body);
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid request body', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const member = await updateSalesTeamMember(id, parsedBody.data);
+    if (!member) {
+      return Response.json(
+        { error: 'Sales team member not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({ member }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SalesTeamConfigError) {
+      return Response.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
+
+/**
+ * DELETE /api/sales-team/:id
+ *
+ * Deactivates a rep: no new leads are routed to them, their record and
+ * assigned leads are kept
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const member = await deactivateSalesTeamMember(id);
+    if (!member) {
+      return Response.json(
+        { error: 'Sales team member not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({ member }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SalesTeamConfigError) {
+      return Response.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
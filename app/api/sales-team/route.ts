@@ -0,0 +1,68 @@
+import { salesTeamMemberSchema } from '@/lib/lead-routing';
+import {
+  addSalesTeamMember,
+  getSalesTeam,
+  getSalesTeamFile,
+  SalesTeamConfigError
+} from '@/lib/sales-team';
+
+/**
+ * GET /api/sales-team?includeInactive=true
+ *
+ * Lists the sales team used for routing
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const members = await getSalesTeam({
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    });
+
+    return Response.json(
+      { members, source: getSalesTeamFile() ? 'file' : 'store' },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof SalesTeamConfigError) {
+      return Response.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
+
+/**
+ * POST /api/sales-team
+ * Body: SalesTeamMember
+ *
+ * Adds a rep; routing picks them up on the next lead
+ */
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedBody = salesTeamMemberSchema.safeParse(body);
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid request body', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const member = await addSalesTeamMember(parsedBody.data);
+    return Response.json({ member }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SalesTeamConfigError) {
+      return Response.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+import { getLeadStore } from '@/lib/lead-store';
+import { getSlaReport } from '@/lib/sla';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SLA compliance API endpoint
+ *
+ * GET /api/sla?since=2026-10-01&until=2026-11-01
+ *
+ * Response SLA compliance of inbound leads submitted in the period (last 30
+ * days by default), overall, per rep and per priority, with the median time
+ * to the first human action.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const until = searchParams.get('until')
+    ? new Date(searchParams.get('until')!)
+    : new Date();
+  const since = searchParams.get('since')
+    ? new Date(searchParams.get('since')!)
+    : new Date(until.getTime() - 30 * DAY_MS);
+  if (isNaN(since.getTime()) || isNaN(until.getTime())) {
+    return Response.json(
+      { error: 'since and until must be ISO dates' },
+      { status: 400 }
+    );
+  }
+
+  const leads = (
+    await getLeadStore().find({
+      source: 'inbound',
+      createdAfter: since.toISOString()
+    })
+  ).filter((lead) => lead.createdAt < until.toISOString());
+
+  return Response.json(
+    {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      ...getSlaReport(leads)
+    },
+    { status: 200 }
+  );
+}
@@ -1,6 +1,152 @@
 import { createHandler } from '@vercel/slack-bolt';
-import { slackApp, receiver } from '@/lib/slack';
-import { sendEmail } from '@/lib/services';
+import { getRun } from 'workflow/api';
+import type { WebClient } from '@slack/web-api';
+import {
+  slackApp,
+  receiver,
+  buildEditEmailModal,
+  buildRejectionModal,
+  findLeadForAction,
+  getDraftRevision,
+  isStaleDraftAction,
+  parseEditEmailModal,
+  parseReassignAction,
+  parseRejectionModal
+} from '@/lib/slack';
+import {
+  notifyAssignedRep,
+  reassignLead,
+  saveEditedLeadEmail,
+  sendApprovedLeadEmail
+} from '@/lib/services';
+import { parseEmailDraft } from '@/lib/email';
+import { getLeadStore, LeadRecord, LeadReview } from '@/lib/lead-store';
+import { syncRepWorkload } from '@/lib/rep-workload';
+import { getSalesTeamMember } from '@/lib/sales-team';
+import { recordFirstHumanAction } from '@/lib/sla';
+import { leadReviewHook, leadReviewToken } from '@/workflows/shared/hooks';
+
+/**
+ * Whether the workflow that posted a lead for review may still pick the
+ * decision up
+ *
+ * Runs whose status can't be read count as alive, so a decision is never
+ * handled twice.
+ */
+async function isReviewOwnedByWorkflow(lead: LeadRecord) {
+  if (!lead.workflowRunId) return false;
+
+  try {
+    const status = await getRun(lead.workflowRunId).status;
+    return status === 'pending' || status === 'running';
+  } catch (error) {
+    console.warn(`Could not read workflow run ${lead.workflowRunId}:`, error);
+    return true;
+  }
+}
+
+/**
+ * Hand a review decision to the workflow waiting on it
+ *
+ * Leads awaiting approval whose workflow has ended are handled inline so a
+ * decision isn't lost. Expired or already reviewed leads are refused. Returns
+ * whether the decision was accepted.
+ */
+async function submitReview(
+  lead: LeadRecord,
+  review: LeadReview,
+  client: WebClient
+) {
+  const refuse = async (text: string) => {
+    await client.chat.postEphemeral({
+      channel: lead.slack!.channel,
+      user: review.reviewedBy,
+      text
+    });
+    return false;
+  };
+
+  if (lead.status === 'REVIEW_EXPIRED') {
+    return refuse(
+      '⏰ This review has expired and nothing was sent. The lead can no longer be approved or rejected from here.'
+    );
+  }
+  if (lead.status !== 'AWAITING_APPROVAL') {
+    return refuse(
+      `This lead has already been reviewed (status: ${lead.status}).`
+    );
+  }
+
+  let delivered = false;
+  try {
+    await leadReviewHook.resume(leadReviewToken(lead.id), review);
+    delivered = true;
+  } catch (error) {
+    if (await isReviewOwnedByWorkflow(lead)) {
+      console.warn(
+        `Could not hand the review of lead ${lead.id} to its workflow:`,
+        error
+      );
+      return refuse(
+        '⚠️ Your review could not be delivered to the workflow. Please try again.'
+      );
+    }
+    console.warn(
+      `No workflow waiting on review for lead ${lead.id}, handling inline:`,
+      error
+    );
+  }
+
+  // Only accepted decisions stop the SLA clock
+  await recordFirstHumanAction(lead.id, review.decision, review.reviewedBy);
+  if (delivered) return true;
+
+  const store = getLeadStore();
+  const status = review.decision === 'APPROVED' ? 'APPROVED' : 'REJECTED';
+  const updated = await store.update(lead.id, { review, status });
+  await syncRepWorkload(updated);
+  const thread = {
+    channel: lead.slack!.channel,
+    thread_ts: lead.slack!.messageTs
+  };
+
+  if (review.decision === 'REJECTED') {
+    await client.chat.postMessage({
+      ...thread,
+      text: `👎 Rejected by <@${review.reviewedBy}> - nothing was sent`
+    });
+    return true;
+  }
+
+  try {
+    await sendApprovedLeadEmail(updated);
+    await client.chat.postMessage({
+      ...thread,
+      text: `✅ Approved by <@${review.reviewedBy}> - email sent`
+    });
+  } catch (error) {
+    await client.chat.postMessage({
+      ...thread,
+      text: `⚠️ Approved by <@${review.reviewedBy}> but the email could not be sent: ${error instanceof Error ? error.message : String(error)}`
+    });
+  }
+  return true;
+}
+
+/**
+ * Tell a reviewer they acted on an outdated draft
+ */
+async function refuseStaleDraft(
+  lead: LeadRecord,
+  userId: string,
+  client: WebClient
+) {
+  await client.chat.postEphemeral({
+    channel: lead.slack!.channel,
+    user: userId,
+    text: '⚠️ This draft has been revised since. Please review the latest version in the thread.'
+  });
+}
 
 // Only set up event handlers if Slack is initialized
 if (slackApp && receiver) {
@@ -12,20 +158,216 @@ if (slackApp && receiver) {
     });
   });
 
-  slackApp.action(
-    'lead_approved',
-    async ({ body, action, ack, client, logger }) => {
+  slackApp.action('lead_approved', async ({ body, ack, client, logger }) => {
+    await ack();
+    if (body.type !== 'block_actions') return;
+
+    const lead = await findLeadForAction(body);
+    if (!lead?.slack) {
+      logger.warn(`No stored lead found for message ${body.message?.ts}`);
+      return;
+    }
+    if (isStaleDraftAction(body, lead)) {
+      await refuseStaleDraft(lead, body.user.id, client);
+      return;
+    }
+
+    await submitReview(
+      lead,
+      {
+        decision: 'APPROVED',
+        reviewedBy: body.user.id,
+        reviewedAt: new Date().toISOString()
+      },
+      client
+    );
+  });
+
+  slackApp.action('lead_rejected', async ({ body, ack, client, logger }) => {
+    await ack();
+    if (body.type !== 'block_actions') return;
+
+    const lead = await findLeadForAction(body);
+    if (!lead?.slack) {
+      logger.warn(`No stored lead found for message ${body.message?.ts}`);
+      return;
+    }
+
+    if (isStaleDraftAction(body, lead)) {
+      await refuseStaleDraft(lead, body.user.id, client);
+      return;
+    }
+
+    // Ask for a reason and guidance before handing the rejection to the workflow
+    await client.views.open({
+      trigger_id: body.trigger_id,
+      view: buildRejectionModal(lead.id, getDraftRevision(lead))
+    });
+  });
+
+  slackApp.action('lead_edit', async ({ body, ack, client, logger }) => {
+    await ack();
+    if (body.type !== 'block_actions') return;
+
+    const lead = await findLeadForAction(body);
+    if (!lead?.slack || !lead.email) {
+      logger.warn(`No stored draft found for message ${body.message?.ts}`);
+      return;
+    }
+
+    if (isStaleDraftAction(body, lead)) {
+      await refuseStaleDraft(lead, body.user.id, client);
+      return;
+    }
+
+    if (lead.status === 'SENT' || lead.status === 'SENDING') {
+      await client.chat.postEphemeral({
+        channel: lead.slack.channel,
+        user: body.user.id,
+        text: 'This email has already been sent and can no longer be edited.'
+      });
+      return;
+    }
+
+    let draft = { subject: '', body: lead.email };
+    try {
+      draft = parseEmailDraft(lead.email);
+    } catch {
+      // Let the reviewer fill in the missing subject
+    }
+
+    await client.views.open({
+      trigger_id: body.trigger_id,
+      view: buildEditEmailModal(
+        lead.id,
+        getDraftRevision(lead),
+        draft.subject,
+        draft.body
+      )
+    });
+  });
+
+  slackApp.action('lead_reassign', async ({ body, ack, client, logger }) => {
+    await ack();
+    if (body.type !== 'block_actions') return;
+
+    const selection = parseReassignAction(body);
+    const lead = selection && (await getLeadStore().get(selection.leadId));
+    if (!selection || !lead?.slack) {
+      logger.warn(`No stored lead found for message ${body.message?.ts}`);
+      return;
+    }
+
+    let result;
+    try {
+      result = await reassignLead(lead, selection.repId, `<@${body.user.id}>`);
+    } catch (error) {
+      await client.chat.postEphemeral({
+        channel: lead.slack.channel,
+        user: body.user.id,
+        text: `⚠️ Could not reassign the lead: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return;
+    }
+    if (!result) return;
+    await recordFirstHumanAction(lead.id, 'REASSIGNED', body.user.id);
+
+    const [previous, next] = await Promise.all([
+      result.previousRepId ? getSalesTeamMember(result.previousRepId) : null,
+      getSalesTeamMember(selection.repId)
+    ]);
+
+    await client.chat.postMessage({
+      channel: lead.slack.channel,
+      thread_ts: lead.slack.messageTs,
+      text: `🔀 Reassigned ${previous ? `from ${previous.name} ` : ''}to ${next?.name ?? selection.repId} by <@${body.user.id}>`
+    });
+
+    try {
+      await notifyAssignedRep(
+        lead.id,
+        result.previousRepId,
+        `🔀 <@${body.user.id}> reassigned a lead to you`
+      );
+    } catch (error) {
+      logger.warn(`Could not DM the new rep for lead ${lead.id}:`, error);
+    }
+  });
+
+  slackApp.view(
+    'lead_edit_modal',
+    async ({ ack, body, view, client, logger }) => {
       await ack();
-      // in production, grab email from database or storage
-      await sendEmail('Send email to the lead');
+
+      const {
+        leadId,
+        revision,
+        subject,
+        body: emailBody
+      } = parseEditEmailModal(view);
+      const lead = await getLeadStore().get(leadId);
+      if (!lead?.slack) {
+        logger.warn(`No stored lead found for id ${leadId}`);
+        return;
+      }
+      // The draft may have been regenerated while the modal was open
+      if (revision !== getDraftRevision(lead)) {
+        await refuseStaleDraft(lead, body.user.id, client);
+        return;
+      }
+      // ...or approved and sent
+      if (lead.status === 'SENT' || lead.status === 'SENDING') {
+        await client.chat.postEphemeral({
+          channel: lead.slack.channel,
+          user: body.user.id,
+          text: 'This email has already been sent and can no longer be edited.'
+        });
+        return;
+      }
+
+      const updated = await saveEditedLeadEmail(
+        lead,
+        subject,
+        emailBody,
+        body.user.id
+      );
+      await recordFirstHumanAction(lead.id, 'EDITED', body.user.id);
+
+      await client.chat.postMessage({
+        channel: lead.slack.channel,
+        thread_ts: lead.slack.messageTs,
+        text: `✏️ Edited by <@${body.user.id}> - this version will be sent on approval:\n\`\`\`${updated.email}\`\`\``
+      });
     }
   );
 
-  slackApp.action(
-    'lead_rejected',
-    async ({ body, action, ack, client, logger }) => {
+  slackApp.view(
+    'lead_rejection_modal',
+    async ({ ack, body, view, client, logger }) => {
       await ack();
-      // take action for feedback from human
+
+      const { leadId, revision, reason, feedback } = parseRejectionModal(view);
+      const lead = await getLeadStore().get(leadId);
+      if (!lead?.slack) {
+        logger.warn(`No stored lead found for id ${leadId}`);
+        return;
+      }
+      if (revision !== getDraftRevision(lead)) {
+        await refuseStaleDraft(lead, body.user.id, client);
+        return;
+      }
+
+      await submitReview(
+        lead,
+        {
+          decision: 'REJECTED',
+          reviewedBy: body.user.id,
+          reviewedAt: new Date().toISOString(),
+          reason,
+          feedback
+        },
+        client
+      );
     }
   );
 }
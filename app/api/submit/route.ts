@@ -1,7 +1,12 @@
 import { formSchema } from '@/lib/types';
 import { checkBotId } from 'botid/server';
 import { start } from 'workflow/api';
-import { workflowInbound } from '@/workflows/inbound';
+import {
+  workflowInbound,
+  workflowRequalifyInbound
+} from '@/workflows/inbound';
+import { appendLeadSubmission, findDuplicateLead } from '@/lib/dedupe';
+import { postSlackThreadMessage, slackApp } from '@/lib/slack';
 
 export async function POST(request: Request) {
   const verification = await checkBotId();
@@ -17,6 +22,37 @@ export async function POST(request: Request) {
     return Response.json({ error: parsedBody.error.message }, { status: 400 });
   }
 
+  // Merge repeat submissions from the same person or company into the existing lead
+  const duplicate = await findDuplicateLead(parsedBody.data);
+  if (duplicate) {
+    const requalify = process.env.DEDUPE_REQUALIFY === 'true';
+    const lead = await appendLeadSubmission(duplicate.lead, {
+      input: parsedBody.data,
+      matchedBy: duplicate.matchedBy,
+      submittedAt: new Date().toISOString(),
+      requalified: requalify
+    });
+
+    if (requalify) {
+      await start(workflowRequalifyInbound, [lead.id]);
+    } else if (lead.slack && slackApp) {
+      try {
+        await postSlackThreadMessage(
+          lead.slack.channel,
+          lead.slack.messageTs,
+          `🔁 Repeat submission from ${parsedBody.data.name} <${parsedBody.data.email}> (matched by ${duplicate.matchedBy}):\n>${parsedBody.data.message}`
+        );
+      } catch (error) {
+        console.warn('Failed to post repeat submission to Slack:', error);
+      }
+    }
+
+    return Response.json(
+      { message: 'Form submitted successfully' },
+      { status: 200 }
+    );
+  }
+
   await start(workflowInbound, [parsedBody.data]);
 
   return Response.json(
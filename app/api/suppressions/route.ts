@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { suppressAddress } from '@/lib/services';
+import {
+  addSuppression,
+  listSuppressions,
+  removeSuppression
+} from '@/lib/suppression';
+
+const suppressionBodySchema = z
+  .object({
+    email: z.string().email().optional(),
+    domain: z.string().min(3).optional(),
+    reason: z
+      .enum(['unsubscribe', 'bounce', 'complaint', 'manual'])
+      .default('manual')
+  })
+  .refine((body) => !!body.email !== !!body.domain, {
+    message: 'Provide exactly one of email or domain'
+  });
+
+/**
+ * GET /api/suppressions
+ *
+ * Lists suppressed email addresses and domains
+ */
+export async function GET() {
+  const suppressions = await listSuppressions();
+
+  return Response.json({ suppressions }, { status: 200 });
+}
+
+/**
+ * POST /api/suppressions
+ * Body: { email } or { domain }, optional reason
+ *
+ * Suppresses an address (stopping outreach to its leads) or a whole domain
+ */
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  const parsedBody = suppressionBodySchema.safeParse(body);
+  if (!parsedBody.success) {
+    return Response.json(
+      { error: 'Invalid request body', details: parsedBody.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { email, domain, reason } = parsedBody.data;
+  const suppression = email
+    ? await suppressAddress(email, reason, 'api')
+    : await addSuppression({
+        type: 'domain',
+        value: domain!.replace(/^@/, ''),
+        reason,
+        source: 'api'
+      });
+
+  return Response.json({ suppression }, { status: 200 });
+}
+
+/**
+ * DELETE /api/suppressions?email=... or ?domain=...
+ *
+ * Removes an address or domain from the suppression list
+ */
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const email = searchParams.get('email');
+  const domain = searchParams.get('domain');
+
+  if (!email && !domain) {
+    return Response.json(
+      { error: 'Provide an email or domain query parameter' },
+      { status: 400 }
+    );
+  }
+
+  const removed = email
+    ? await removeSuppression('email', email)
+    : await removeSuppression('domain', domain!.replace(/^@/, ''));
+
+  if (!removed) {
+    return Response.json({ error: 'Suppression not found' }, { status: 404 });
+  }
+
+  return Response.json({ removed: true }, { status: 200 });
+}
@@ -0,0 +1,37 @@
+import { setRepTaskStatus } from '@/lib/tasks';
+
+/**
+ * PATCH /api/tasks/:id
+ * Body: { status: "done" | "open" }
+ *
+ * Marks a rep task done once the touch was made, or reopens it
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json(
+      { error: 'Invalid request body', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  if (body?.status !== 'done' && body?.status !== 'open') {
+    return Response.json(
+      { error: 'status must be "done" or "open"' },
+      { status: 400 }
+    );
+  }
+
+  const task = await setRepTaskStatus(id, body.status);
+  if (!task) {
+    return Response.json({ error: 'Task not found' }, { status: 404 });
+  }
+
+  return Response.json({ task }, { status: 200 });
+}
@@ -0,0 +1,25 @@
+import { listRepTasks, RepTask } from '@/lib/tasks';
+
+/**
+ * Rep tasks API endpoint
+ *
+ * GET /api/tasks?leadId=...&assignee=...&status=open
+ *
+ * Lists manual touches (LinkedIn, phone, video) created by outbound sequences
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const status = searchParams.get('status') as RepTask['status'] | null;
+  if (status && status !== 'open' && status !== 'done') {
+    return Response.json({ error: 'Invalid status' }, { status: 400 });
+  }
+
+  const tasks = await listRepTasks({
+    leadId: searchParams.get('leadId') || undefined,
+    assignee: searchParams.get('assignee') || undefined,
+    status: status || undefined
+  });
+
+  return Response.json({ tasks }, { status: 200 });
+}
@@ -0,0 +1,64 @@
+import { suppressAddress } from '@/lib/services';
+import { verifyUnsubscribeToken } from '@/lib/suppression';
+
+function getTokenEmail(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  return token ? verifyUnsubscribeToken(token) : null;
+}
+
+function htmlPage(body: string, status: number) {
+  return new Response(
+    `<!doctype html><html><body style="font-family:sans-serif;padding:2rem">${body}</body></html>`,
+    {
+      status,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    }
+  );
+}
+
+/**
+ * Unsubscribe link from the footer of every outgoing email
+ *
+ * GET /api/unsubscribe?token=<signed token>
+ *
+ * Only shows a confirmation page: link scanners and mail prefetchers open
+ * links nobody clicked, so the unsubscribe itself happens on POST.
+ */
+export async function GET(request: Request) {
+  const email = getTokenEmail(request);
+  if (!email) {
+    return htmlPage('<p>This unsubscribe link is invalid.</p>', 400);
+  }
+
+  // Without an action the form posts back to this URL, token included
+  return htmlPage(
+    `<p>Unsubscribe ${email} from further emails?</p><form method="post"><button type="submit">Unsubscribe</button></form>`,
+    200
+  );
+}
+
+/**
+ * Unsubscribe, from the confirmation page or one-click from mail clients
+ * (RFC 8058 `List-Unsubscribe-Post`)
+ *
+ * POST /api/unsubscribe?token=<signed token>
+ */
+export async function POST(request: Request) {
+  const email = getTokenEmail(request);
+  const fromBrowser = request.headers.get('accept')?.includes('text/html');
+
+  if (!email) {
+    return fromBrowser
+      ? htmlPage('<p>This unsubscribe link is invalid.</p>', 400)
+      : Response.json({ error: 'Invalid token' }, { status: 400 });
+  }
+
+  await suppressAddress(email, 'unsubscribe', 'link');
+
+  return fromBrowser
+    ? htmlPage(
+        `<p>${email} has been unsubscribed and will not receive further emails.</p>`,
+        200
+      )
+    : Response.json({ unsubscribed: email }, { status: 200 });
+}
@@ -16,6 +16,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { formSchema } from '@/lib/types';
+import { classifyEmailDomain } from '@/lib/email-domains';
 import { toast } from 'sonner';
 
 export function LeadForm() {
@@ -26,9 +27,11 @@ export function LeadForm() {
       name: '',
       phone: '',
       company: '',
+      location: '',
       message: ''
     }
   });
+  const personalEmail = classifyEmailDomain(form.watch('email')) === 'free';
 
   async function onSubmit(data: z.infer<typeof formSchema>) {
     const response = await fetch('/api/submit', {
@@ -70,7 +73,9 @@ export function LeadForm() {
                     autoComplete="email"
                   />
                   <FieldDescription>
-                    Please use your work email address.
+                    {personalEmail
+                      ? 'This looks like a personal address. A work email helps us get back to you faster.'
+                      : 'Please use your work email address.'}
                   </FieldDescription>
                   {fieldState.invalid && (
                     <FieldError errors={[fieldState.error]} />
@@ -146,6 +151,30 @@ export function LeadForm() {
                 </Field>
               )}
             />
+
+            <Controller
+              name="location"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="location">Location</FieldLabel>
+                  <Input
+                    {...field}
+                    id="location"
+                    aria-invalid={fieldState.invalid}
+                    placeholder="Austin, TX"
+                    autoComplete="country-name"
+                  />
+                  <FieldDescription>
+                    Optional: City, state or country, so the right local team
+                    can reach out.
+                  </FieldDescription>
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
           </FieldGroup>
         </FieldSet>
 
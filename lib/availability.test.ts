@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getNextAvailableTime } from '@/lib/availability';
+import type { SalesTeamMember } from '@/lib/lead-routing';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const berlinRep: SalesTeamMember = {
+  id: 'ae-2',
+  name: 'Lena Vogel',
+  email: 'lena.vogel@company.com',
+  role: 'AE',
+  timeZone: 'Europe/Berlin',
+  workingHours: { start: '09:00', end: '17:00' }
+};
+
+describe('getNextAvailableTime', () => {
+  it('returns the start time when the rep is already available', () => {
+    // Monday 12:00 in Berlin
+    const from = new Date('2026-10-19T10:00:00Z');
+
+    expect(getNextAvailableTime(berlinRep, from, HOUR_MS)).toBe(from);
+  });
+
+  it("finds the start of the next shift in the rep's time zone", () => {
+    // Monday 07:03 in Berlin (UTC+2)
+    expect(
+      getNextAvailableTime(
+        berlinRep,
+        new Date('2026-10-19T05:03:00Z'),
+        4 * HOUR_MS
+      )
+    ).toEqual(new Date('2026-10-19T07:00:00Z'));
+  });
+
+  it('skips the weekend and follows daylight saving changes', () => {
+    // Friday 18:00 in Berlin; clocks go back on Sunday
+    expect(
+      getNextAvailableTime(
+        berlinRep,
+        new Date('2026-10-23T16:00:00Z'),
+        4 * 24 * HOUR_MS
+      )
+    ).toEqual(new Date('2026-10-26T08:00:00Z'));
+  });
+
+  it('returns null when the rep is not available within the window', () => {
+    expect(
+      getNextAvailableTime(berlinRep, new Date('2026-10-23T16:00:00Z'), HOUR_MS)
+    ).toBeNull();
+  });
+
+  it('treats date-only out-of-office days as whole local days', () => {
+    const rep: SalesTeamMember = {
+      ...berlinRep,
+      workingHours: undefined,
+      outOfOffice: [{ start: '2026-10-19', end: '2026-10-20' }]
+    };
+
+    expect(
+      getNextAvailableTime(
+        rep,
+        new Date('2026-10-19T10:00:00Z'),
+        3 * 24 * HOUR_MS
+      )
+    ).toEqual(new Date('2026-10-20T22:00:00Z'));
+  });
+
+  it('supports shifts that run past midnight', () => {
+    const rep: SalesTeamMember = {
+      ...berlinRep,
+      timeZone: 'UTC',
+      workingHours: { start: '22:00', end: '06:00' }
+    };
+
+    expect(
+      getNextAvailableTime(rep, new Date('2026-10-19T12:00:00Z'), 12 * HOUR_MS)
+    ).toEqual(new Date('2026-10-19T22:00:00Z'));
+    expect(
+      getNextAvailableTime(rep, new Date('2026-10-20T05:30:00Z'), HOUR_MS)
+    ).toEqual(new Date('2026-10-20T05:30:00Z'));
+  });
+});
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { leadPrioritySchema } from '@/lib/types';
+import type { SalesTeamMember } from '@/lib/lead-routing';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * How soon a lead of each priority should get a response
+ */
+export const responseWindowMs: Record<
+  z.infer<typeof leadPrioritySchema>,
+  number
+> = {
+  URGENT: 15 * MINUTE_MS,
+  HIGH: HOUR_MS,
+  MEDIUM: 4 * HOUR_MS,
+  LOW: 24 * HOUR_MS
+};
+
+// Weekdays as numbered in `workingHours.days` (0 = Sunday)
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const defaultWorkingDays = [1, 2, 3, 4, 5];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock date, weekday and minute of the day in a time zone
+ */
+function localTime(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: weekdays.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Whether a time zone name is known to the runtime (e.g. `Europe/Berlin`)
+ */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The out-of-office range covering a moment, if any
+ *
+ * Date-only bounds are whole days in the rep's time zone, with the end day
+ * included.
+ */
+function findOutOfOffice(member: SalesTeamMember, at: Date) {
+  const local = localTime(at, member.timeZone ?? 'UTC');
+
+  return member.outOfOffice?.find(
+    (range) =>
+      (isDateOnly(range.start)
+        ? local.date >= range.start
+        : at.getTime() >= Date.parse(range.start)) &&
+      (isDateOnly(range.end)
+        ? local.date <= range.end
+        : at.getTime() <= Date.parse(range.end))
+  );
+}
+
+/**
+ * Whether a rep is inside their working hours
+ *
+ * Reps without `workingHours` are always on; shifts may run past midnight.
+ */
+function isWithinWorkingHours(member: SalesTeamMember, at: Date) {
+  if (!member.workingHours) return true;
+
+  const { days = defaultWorkingDays, start, end } = member.workingHours;
+  const local = localTime(at, member.timeZone ?? 'UTC');
+  if (!days.includes(local.day)) return false;
+
+  const [from, to] = [toMinutes(start), toMinutes(end)];
+  return from <= to
+    ? local.minutes >= from && local.minutes < to
+    : local.minutes >= from || local.minutes < to;
+}
+
+/**
+ * Whether a rep is working and not out of office at a moment
+ */
+export function isRepAvailable(member: SalesTeamMember, at = new Date()) {
+  return !findOutOfOffice(member, at) && isWithinWorkingHours(member, at);
+}
+
+/**
+ * The first moment within `withinMs` of `from` the rep is available, checked
+ * in 5-minute steps, or null if they aren't available in that time
+ */
+export function getNextAvailableTime(
+  member: SalesTeamMember,
+  from: Date,
+  withinMs: number
+): Date | null {
+  const step = 5 * MINUTE_MS;
+  const until = from.getTime() + withinMs;
+
+  if (isRepAvailable(member, from)) return from;
+
+  for (
+    let time = Math.ceil(from.getTime() / step) * step;
+    time <= until;
+    time += step
+  ) {
+    const at = new Date(time);
+    if (isRepAvailable(member, at)) return at;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a rep can respond within a window starting now
+ */
+export function isAvailableWithin(
+  member: SalesTeamMember,
+  windowMs: number,
+  now = new Date()
+) {
+  return getNextAvailableTime(member, now, windowMs) !== null;
+}
+
+/**
+ * Why a rep is unavailable right now, e.g. "out of office until 2026-10-24"
+ */
+export function describeUnavailability(
+  member: SalesTeamMember,
+  now = new Date()
+) {
+  const outOfOffice = findOutOfOffice(member, now);
+  if (outOfOffice) {
+    return `out of office until ${outOfOffice.end}${outOfOffice.note ? `: ${outOfOffice.note}` : ''}`;
+  }
+
+  if (member.workingHours && !isWithinWorkingHours(member, now)) {
+    const { start, end } = member.workingHours;
+    return `outside working hours, ${start}-${end} ${member.timeZone ?? 'UTC'}`;
+  }
+
+  return 'available';
+}
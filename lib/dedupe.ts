@@ -0,0 +1,86 @@
+import {
+  getLeadStore,
+  InboundLeadRecord,
+  LeadSubmission
+} from '@/lib/lead-store';
+import { FormSchema } from '@/lib/types';
+import { getCompanyDomain } from '@/lib/email-domains';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize an address for duplicate matching
+ *
+ * Lowercases, drops `+tag` suffixes and ignores dots in Gmail local parts.
+ */
+export function normalizeEmail(email: string) {
+  const [local, domain = ''] = email.trim().toLowerCase().split('@');
+  let normalized = local.split('+')[0];
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    normalized = normalized.replace(/\./g, '');
+    return `${normalized}@gmail.com`;
+  }
+
+  return `${normalized}@${domain}`;
+}
+
+/**
+ * How far back submissions are matched (`DEDUPE_WINDOW_DAYS`, default 7)
+ */
+export function getDedupeWindowMs() {
+  return Number(process.env.DEDUPE_WINDOW_DAYS || 7) * DAY_MS;
+}
+
+/**
+ * Existing lead a new submission duplicates
+ */
+export interface DuplicateMatch {
+  lead: InboundLeadRecord;
+  matchedBy: LeadSubmission['matchedBy'];
+}
+
+/**
+ * Find an inbound lead from the same person, or the same company, submitted
+ * within the dedupe window. Same-person matches win over same-company ones.
+ */
+export async function findDuplicateLead(
+  input: FormSchema
+): Promise<DuplicateMatch | null> {
+  const windowMs = getDedupeWindowMs();
+  if (windowMs <= 0) return null;
+
+  const recent = (await getLeadStore().find({
+    source: 'inbound',
+    createdAfter: new Date(Date.now() - windowMs).toISOString()
+  })) as InboundLeadRecord[];
+
+  const email = normalizeEmail(input.email);
+  const byEmail = recent.find(
+    (lead) => normalizeEmail(lead.input.email) === email
+  );
+  if (byEmail) return { lead: byEmail, matchedBy: 'email' };
+
+  const domain = getCompanyDomain(input.email);
+  if (!domain || process.env.DEDUPE_BY_DOMAIN === 'false') return null;
+
+  const byDomain = recent.find(
+    (lead) => getCompanyDomain(lead.input.email) === domain
+  );
+  return byDomain ? { lead: byDomain, matchedBy: 'domain' } : null;
+}
+
+/**
+ * Append a repeat submission to the existing lead's timeline
+ */
+export async function appendLeadSubmission(
+  lead: InboundLeadRecord,
+  submission: LeadSubmission
+) {
+  return getLeadStore().update(lead.id, (current) => ({
+    timeline: [
+      ...(current.source === 'inbound' ? (current.timeline ?? []) : []),
+      submission
+    ]
+  }));
+}
@@ -0,0 +1,94 @@
+import disposableDomainList from '@/lib/disposable-email-domains.json';
+
+/**
+ * Consumer mailbox providers; addresses on these never share a company
+ */
+export const freeMailDomains = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'yahoo.co.uk',
+  'yahoo.fr',
+  'yahoo.de',
+  'ymail.com',
+  'hotmail.com',
+  'hotmail.co.uk',
+  'hotmail.fr',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'pm.me',
+  'gmx.com',
+  'gmx.de',
+  'gmx.net',
+  'web.de',
+  't-online.de',
+  'mail.com',
+  'yandex.com',
+  'yandex.ru',
+  'mail.ru',
+  'zoho.com',
+  'fastmail.com',
+  'hey.com',
+  'tutanota.com',
+  'qq.com',
+  '163.com',
+  'naver.com',
+  'orange.fr',
+  'free.fr',
+  'libero.it',
+  'comcast.net',
+  'verizon.net',
+  'att.net'
+]);
+
+/**
+ * Throwaway inbox providers; addresses on these are refused by the lead form.
+ * Kept in `disposable-email-domains.json`, one domain per entry
+ */
+export const disposableEmailDomains = new Set<string>(disposableDomainList);
+
+export type EmailDomainType = 'corporate' | 'free' | 'disposable';
+
+/**
+ * Lowercased domain of an address
+ */
+export function getEmailDomain(email: string) {
+  return email.trim().toLowerCase().split('@').pop() ?? '';
+}
+
+/**
+ * Whether `domain` is in the list or a subdomain of one in it (e.g.
+ * `abc.mailinator.com`)
+ */
+function inDomainList(domains: Set<string>, domain: string) {
+  const labels = domain.split('.');
+  return labels.some((_, index) => domains.has(labels.slice(index).join('.')));
+}
+
+/**
+ * Whether an address is a work address, a personal one from a free mail
+ * provider or a throwaway inbox
+ */
+export function classifyEmailDomain(email: string): EmailDomainType {
+  const domain = getEmailDomain(email);
+  if (inDomainList(disposableEmailDomains, domain)) return 'disposable';
+  if (inDomainList(freeMailDomains, domain)) return 'free';
+  return 'corporate';
+}
+
+/**
+ * Company domain of an address, or null for free mail and disposable
+ * providers
+ */
+export function getCompanyDomain(email: string) {
+  const domain = getEmailDomain(email);
+  if (!domain || classifyEmailDomain(email) !== 'corporate') return null;
+  return domain;
+}
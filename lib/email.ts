@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { dataDir } from '@/lib/file-store';
+
+/**
+ * Email ready to hand to a transport
+ */
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  inReplyTo?: string;
+  references?: string[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Result of a successful delivery
+ */
+export interface EmailSendResult {
+  messageId: string;
+  transport: string;
+  sentAt: string;
+}
+
+/**
+ * Pluggable email delivery interface
+ *
+ * Implementations can be swapped with `setEmailTransport()` (e.g. Resend, SendGrid).
+ */
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<EmailSendResult>;
+}
+
+const defaultFrom = () => process.env.EMAIL_FROM || 'sales@example.com';
+
+/**
+ * SMTP transport
+ *
+ * Point `SMTP_HOST`/`SMTP_PORT` at localhost:1025 to deliver into MailCatcher
+ * or Mailpit during development.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    const port = Number(process.env.SMTP_PORT || 587);
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: defaultFrom(),
+      ...email
+    });
+
+    return {
+      messageId: info.messageId,
+      transport: this.name,
+      sentAt: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * Local file transport
+ *
+ * Writes each message as an RFC 822 `.eml` file to `DATA_DIR/outbox`.
+ */
+export class FileEmailTransport implements EmailTransport {
+  name = 'file';
+  private transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix'
+  });
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: defaultFrom(),
+      ...email
+    });
+
+    const outbox = path.join(dataDir, 'outbox');
+    await fs.mkdir(outbox, { recursive: true });
+
+    const fileName = `${Date.now()}-${info.messageId.replace(/[<>@]/g, '_')}.eml`;
+    await fs.writeFile(path.join(outbox, fileName), info.message as Buffer);
+
+    return {
+      messageId: info.messageId,
+      transport: this.name,
+      sentAt: new Date().toISOString()
+    };
+  }
+}
+
+let emailTransport: EmailTransport | null = null;
+
+/**
+ * Get the active email transport (`EMAIL_TRANSPORT=smtp|file`, default: file)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    emailTransport =
+      process.env.EMAIL_TRANSPORT === 'smtp'
+        ? new SmtpEmailTransport()
+        : new FileEmailTransport();
+  }
+  return emailTransport;
+}
+
+/**
+ * Replace the email transport implementation
+ */
+export function setEmailTransport(transport: EmailTransport) {
+  emailTransport = transport;
+}
+
+/**
+ * Split a generated draft ("Subject: ...\n\n<body>") into subject and body
+ */
+export function parseEmailDraft(draft: string): {
+  subject: string;
+  body: string;
+} {
+  const match = draft.match(/^\s*\**\s*subject\s*:?\**\s*:?\s*(.+)$/im);
+
+  if (!match || match.index === undefined) {
+    throw new Error('Email draft is missing a "Subject:" line');
+  }
+
+  const subject = match[1].replace(/\*+/g, '').trim();
+  const body = draft.slice(match.index + match[0].length).trim();
+
+  return { subject, body };
+}
+
+/**
+ * Inverse of `parseEmailDraft`
+ */
+export function formatEmailDraft(subject: string, body: string) {
+  return `Subject: ${subject.trim()}\n\n${body.trim()}`;
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Directory used by the local file-backed stores
+ */
+export const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// Pending writes per file, so concurrent steps in one process don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * JSON file-backed collection of records keyed by id
+ *
+ * Suitable for local development and single-node deployments. Each collection
+ * is stored as one JSON file under `DATA_DIR` (default: `.data/`).
+ */
+export class JsonFileCollection<T extends { id: string }> {
+  private filePath: string;
+
+  constructor(name: string) {
+    this.filePath = path.join(dataDir, `${name}.json`);
+  }
+
+  /**
+   * Get a record by id
+   */
+  async get(id: string): Promise<T | null> {
+    const records = await this.readAll();
+    return records[id] ?? null;
+  }
+
+  /**
+   * List all records
+   */
+  async list(): Promise<T[]> {
+    const records = await this.readAll();
+    return Object.values(records);
+  }
+
+  /**
+   * Insert or replace a record
+   */
+  async put(record: T): Promise<T> {
+    return this.withWriteLock(async () => {
+      const records = await this.readAll();
+      records[record.id] = record;
+      await this.writeAll(records);
+      return record;
+    });
+  }
+
+  /**
+   * Read-modify-write a record atomically (within this process)
+   */
+  async update(id: string, updater: (current: T) => T): Promise<T | null> {
+    return this.withWriteLock(async () => {
+      const records = await this.readAll();
+      const current = records[id];
+      if (!current) return null;
+
+      const next = updater(current);
+      records[id] = next;
+      await this.writeAll(records);
+      return next;
+    });
+  }
+
+  /**
+   * Delete a record by id
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.withWriteLock(async () => {
+      const records = await this.readAll();
+      if (!records[id]) return false;
+
+      delete records[id];
+      await this.writeAll(records);
+      return true;
+    });
+  }
+
+  private async readAll(): Promise<Record<string, T>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as Record<string, T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async writeAll(records: Record<string, T>) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file and rename so readers never see a partial file
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private async withWriteLock<R>(fn: () => Promise<R>): Promise<R> {
+    const previous = writeQueues.get(this.filePath) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    writeQueues.set(this.filePath, next);
+    return next;
+  }
+}
+
+/**
+ * JSON or YAML (`.yaml`/`.yml`) config file validated with a schema and
+ * re-read whenever it changes
+ *
+ * If an edit leaves the file invalid, the last valid contents stay in use.
+ */
+export class JsonConfigFile<T> {
+  private cache: { filePath: string; mtimeMs: number; value: T } | null =
+    null;
+
+  constructor(
+    private label: string,
+    private schema: z.ZodType<T>,
+    private select: (json: unknown) => unknown = (json) => json
+  ) {}
+
+  async load(filePath: string): Promise<T> {
+    const { mtimeMs } = await fs.stat(filePath);
+    const cache = this.cache?.filePath === filePath ? this.cache : null;
+    if (cache?.mtimeMs === mtimeMs) return cache.value;
+
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      const json = /\.ya?ml$/i.test(filePath)
+        ? parseYaml(raw)
+        : JSON.parse(raw);
+      const parsed = this.schema.safeParse(this.select(json));
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid ${this.label} in ${filePath}: ${parsed.error.message}`
+        );
+      }
+
+      this.cache = { filePath, mtimeMs, value: parsed.data };
+      console.log(`⚙️  Loaded ${this.label} from ${filePath}`);
+      return parsed.data;
+    } catch (error) {
+      if (!cache) throw error;
+
+      console.warn(
+        `⚠️  Keeping the previous ${this.label}, ${filePath} could not be loaded:`,
+        error
+      );
+      this.cache = { ...cache, mtimeMs };
+      return cache.value;
+    }
+  }
+}
@@ -1,6 +1,36 @@
-import { QualificationSchema, companySizeSchema, industrySchema } from './types';
+import {
+  QualificationSchema,
+  companySizeSchema,
+  industrySchema,
+  salesRoleSchema
+} from './types';
+import {
+  describeLeadRegion,
+  LeadRegion,
+  territoryMatchLevel
+} from './territories';
+import {
+  describeUnavailability,
+  isAvailableWithin,
+  isValidTimeZone,
+  responseWindowMs
+} from './availability';
+import {
+  defaultRoutingRules,
+  findRuleMismatch,
+  RoutingContext,
+  RoutingRule
+} from './routing-rules';
+import { pickNextInRotation, RotationPick, Rotations } from './round-robin';
 import { z } from 'zod';
 
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+// A calendar date (whole days) or an exact ISO timestamp
+const dateOrDateTimeSchema = z.union([z.iso.date(), z.iso.datetime()]);
+
 /**
  * Sales team member schema
  */
@@ -8,113 +38,448 @@ export const salesTeamMemberSchema = z.object({
   id: z.string(),
   name: z.string(),
   email: z.string(),
-  role: z.enum(['SDR', 'AE', 'ENTERPRISE_AE', 'TEAM_LEAD']),
+  role: salesRoleSchema,
+  // Regions (EMEA), countries (DE, Germany) or US states (US-CA, California)
   territories: z.array(z.string()).optional(),
-  industries: z.array(z.infer<typeof industrySchema>).optional(),
-  companySizes: z.array(z.infer<typeof companySizeSchema>).optional(),
+  industries: z.array(industrySchema).optional(),
+  companySizes: z.array(companySizeSchema).optional(),
   maxActiveLeads: z.number().optional(),
-  currentLeadCount: z.number().optional()
+  // Share of round-robin leads relative to other reps (default 1)
+  routingWeight: z.number().positive().optional(),
+  currentLeadCount: z.number().optional(),
+  // Inactive reps are kept for history but never routed to
+  active: z.boolean().optional(),
+  // IANA time zone for working hours and OOO dates (default UTC)
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, 'Unknown time zone')
+    .optional(),
+  // Reps without working hours are treated as always on
+  workingHours: z
+    .object({
+      // 0 = Sunday; Monday to Friday when omitted
+      days: z.array(z.number().int().min(0).max(6)).optional(),
+      start: timeOfDaySchema,
+      end: timeOfDaySchema
+    })
+    .optional(),
+  outOfOffice: z
+    .array(
+      z.object({
+        start: dateOrDateTimeSchema,
+        end: dateOrDateTimeSchema,
+        note: z.string().optional()
+      })
+    )
+    .optional()
 });
 
 export type SalesTeamMember = z.infer<typeof salesTeamMemberSchema>;
 
+/**
+ * What happened to one routing rule while routing a lead
+ */
+export interface RuleTrace {
+  ruleId: string;
+  outcome: 'disabled' | 'no_match' | 'no_rep' | 'assigned' | 'queued';
+  detail?: string;
+}
+
+/**
+ * Routing outcome with a human-readable explanation
+ */
+export interface RoutingRecommendation {
+  assignedTo: SalesTeamMember | null;
+  reason: string;
+  /** Rule that decided the outcome */
+  ruleId?: string;
+  /** Set when a rule sent the lead to a named queue instead of a rep */
+  queue?: string;
+  /** Set when the rep was picked from a rotation; persist it on assignment */
+  rotation?: RotationPick;
+  /** Set when no rep was eligible and the lead went to the fallback */
+  fallback?: 'TEAM_LEAD' | 'UNASSIGNED';
+  trace: RuleTrace[];
+}
+
+/**
+ * A rep's standing for one lead, as shown by routing simulations
+ */
+export interface CandidateRanking {
+  rank: number;
+  repId: string;
+  name: string;
+  role: SalesTeamMember['role'];
+  activeLeads: number;
+  selected: boolean;
+  /** First rule matching the lead whose pool includes the rep */
+  ruleId?: string;
+  /** Why the rep didn't get the lead */
+  eliminatedBy: string[];
+}
+
+/**
+ * Result of running the rule set once
+ */
+interface RuleEvaluation {
+  rule?: RoutingRule;
+  assignedTo?: SalesTeamMember;
+  rotation?: RotationPick;
+  queue?: string;
+  trace: RuleTrace[];
+}
+
+interface EvaluationOptions {
+  /** Only consider reps who can respond within the response window */
+  requireAvailable: boolean;
+  /** Match reps on territory; turned off to see what territory changed */
+  useTerritory: boolean;
+}
+
+/**
+ * Whether a rep is below their `maxActiveLeads` limit
+ */
+function hasCapacity(member: SalesTeamMember) {
+  return (
+    !member.maxActiveLeads ||
+    (member.currentLeadCount || 0) < member.maxActiveLeads
+  );
+}
+
+/**
+ * Whether a rep handles the lead's company size
+ *
+ * Reps without `companySizes` cover every size, and leads of unknown size
+ * can go to anyone.
+ */
+function coversCompanySize(
+  member: SalesTeamMember,
+  companySize?: z.infer<typeof companySizeSchema>
+) {
+  return (
+    !member.companySizes ||
+    !companySize ||
+    companySize === 'UNKNOWN' ||
+    member.companySizes.includes(companySize)
+  );
+}
+
+/**
+ * How specifically a rep's territories cover the lead's region (0 = not at all)
+ */
+function territoryLevel(member: SalesTeamMember, region?: LeadRegion | null) {
+  if (!region) return 0;
+
+  return Math.max(
+    0,
+    ...(member.territories ?? []).map((territory) =>
+      territoryMatchLevel(territory, region)
+    )
+  );
+}
+
+/**
+ * Why a rep is outside a rule action's pool, or null when they are in it
+ */
+function describePoolExclusion(
+  rule: RoutingRule,
+  member: SalesTeamMember,
+  qualification: QualificationSchema,
+  context: RoutingContext
+): string | null {
+  const action = rule.then;
+  const { industry } = qualification;
+
+  switch (action.type) {
+    case 'queue':
+      return `rule ${rule.id} queues the lead`;
+    case 'assign':
+      return action.repId === member.id
+        ? null
+        : `rule ${rule.id} assigns ${action.repId} only`;
+    case 'round_robin':
+      return action.repIds.includes(member.id)
+        ? null
+        : `not in round-robin group ${action.group} (rule ${rule.id})`;
+    case 'pool':
+      if (action.roles && !action.roles.includes(member.role)) {
+        return `rule ${rule.id} only takes ${action.roles.join(', ')} reps`;
+      }
+      if (action.repIds && !action.repIds.includes(member.id)) {
+        return `not listed in rule ${rule.id}`;
+      }
+      if (
+        action.requireIndustryMatch &&
+        !(industry && member.industries?.includes(industry))
+      ) {
+        return `no ${industry ?? 'matching'} expertise, required by rule ${rule.id}`;
+      }
+      if (
+        action.requireTerritoryMatch &&
+        territoryLevel(member, context.region) === 0
+      ) {
+        return `doesn't cover the lead's territory, required by rule ${rule.id}`;
+      }
+      return null;
+  }
+}
+
+/**
+ * One-line summary of the rules evaluated for a lead
+ */
+function formatTrace(trace: RuleTrace[]) {
+  return trace
+    .map(({ ruleId, outcome, detail }) =>
+      detail ? `${ruleId} ${outcome} (${detail})` : `${ruleId} ${outcome}`
+    )
+    .join('; ');
+}
+
 /**
  * Lead routing rules engine
  *
- * Intelligently routes leads to the most appropriate sales rep based on:
- * - Lead score and priority
- * - Company size
- * - Industry expertise
+ * Routes leads to the most appropriate sales rep by evaluating an ordered set
+ * of routing rules (see `lib/routing-rules.ts`). Rules match on lead score,
+ * priority, category, company size, industry, territory and source; within a
+ * rule's pool reps are picked by:
  * - Geographic territory
+ * - Industry expertise
  * - Current workload
  * - Rep availability
  */
 export class LeadRouter {
   private salesTeam: SalesTeamMember[];
+  private rules: RoutingRule[];
+  private rotations: Rotations;
+  private now: () => Date;
 
-  constructor(salesTeam: SalesTeamMember[] = []) {
+  constructor(
+    salesTeam: SalesTeamMember[] = [],
+    rules: RoutingRule[] = defaultRoutingRules,
+    rotations: Rotations = {},
+    now: () => Date = () => new Date()
+  ) {
     this.salesTeam = salesTeam;
+    this.rules = rules;
+    this.rotations = rotations;
+    this.now = now;
   }
 
   /**
    * Route a lead to the best-fit sales rep
+   *
+   * Only reps with capacity who cover the lead's company size are eligible;
+   * team leads are kept for the fallback. Reps who can respond within the
+   * priority's response window are preferred; if nobody can, the lead is
+   * routed as if everyone were available. Returns null when no rule assigns
+   * a rep.
    */
-  routeLead(qualification: QualificationSchema): SalesTeamMember | null {
-    if (this.salesTeam.length === 0) {
-      return null;
-    }
+  routeLead(
+    qualification: QualificationSchema,
+    context: RoutingContext = {}
+  ): SalesTeamMember | null {
+    return this.route(qualification, context, true).assignedTo ?? null;
+  }
 
-    // Hot leads and high priority always go to enterprise AEs
-    if (
-      qualification.category === 'HOT_LEAD' ||
-      qualification.priority === 'URGENT'
-    ) {
-      const enterpriseAE = this.findBestEnterpriseAE(qualification);
-      if (enterpriseAE) return enterpriseAE;
-    }
+  /**
+   * Evaluate the rules with available reps, then with everyone
+   */
+  private route(
+    qualification: QualificationSchema,
+    context: RoutingContext,
+    useTerritory: boolean
+  ): RuleEvaluation {
+    const available = this.evaluate(qualification, context, {
+      requireAvailable: true,
+      useTerritory
+    });
+    if (available.assignedTo || available.queue) return available;
 
-    // Route based on company size
-    if (qualification.companySize === 'ENTERPRISE') {
-      return this.findBestEnterpriseAE(qualification);
-    }
+    return this.evaluate(qualification, context, {
+      requireAvailable: false,
+      useTerritory
+    });
+  }
+
+  /**
+   * Run the rules in order until one assigns a rep or queues the lead
+   */
+  private evaluate(
+    qualification: QualificationSchema,
+    context: RoutingContext,
+    options: EvaluationOptions
+  ): RuleEvaluation {
+    const eligible = this.salesTeam.filter(
+      (member) =>
+        member.role !== 'TEAM_LEAD' &&
+        hasCapacity(member) &&
+        coversCompanySize(member, qualification.companySize) &&
+        (!options.requireAvailable || this.isAvailable(member, qualification))
+    );
+    const trace: RuleTrace[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.enabled === false) {
+        trace.push({ ruleId: rule.id, outcome: 'disabled' });
+        continue;
+      }
+
+      const mismatch = findRuleMismatch(rule, qualification, context);
+      if (mismatch) {
+        trace.push({ ruleId: rule.id, outcome: 'no_match', detail: mismatch });
+        continue;
+      }
+
+      if (rule.then.type === 'queue') {
+        trace.push({
+          ruleId: rule.id,
+          outcome: 'queued',
+          detail: rule.then.queue
+        });
+        return { rule, queue: rule.then.queue, trace };
+      }
+
+      const picked = this.applyAction(
+        rule,
+        eligible,
+        qualification,
+        context,
+        options
+      );
+      if (picked) {
+        trace.push({
+          ruleId: rule.id,
+          outcome: 'assigned',
+          detail: picked.assignedTo.id
+        });
+        return { rule, ...picked, trace };
+      }
 
-    // Route based on industry expertise
-    if (qualification.industry) {
-      const industryExpert = this.findIndustryExpert(qualification.industry);
-      if (industryExpert) return industryExpert;
+      trace.push({
+        ruleId: rule.id,
+        outcome: 'no_rep',
+        detail: options.requireAvailable
+          ? 'no eligible rep available'
+          : 'no eligible rep'
+      });
     }
 
-    // Round-robin distribution for other leads
-    return this.findLeastBusyRep();
+    return { trace };
   }
 
   /**
-   * Find best enterprise AE
+   * Pick a rep for a rule's action among the eligible reps
    */
-  private findBestEnterpriseAE(
-    qualification: QualificationSchema
-  ): SalesTeamMember | null {
-    const enterpriseAEs = this.salesTeam.filter(
-      (member) => member.role === 'ENTERPRISE_AE'
-    );
+  private applyAction(
+    rule: RoutingRule,
+    eligible: SalesTeamMember[],
+    qualification: QualificationSchema,
+    context: RoutingContext,
+    options: EvaluationOptions
+  ): { assignedTo: SalesTeamMember; rotation?: RotationPick } | null {
+    const action = rule.then;
 
-    if (enterpriseAEs.length === 0) return null;
+    switch (action.type) {
+      case 'queue':
+        return null;
 
-    // Find AE with matching industry and capacity
-    const match = enterpriseAEs.find((ae) => {
-      const hasIndustryMatch =
-        qualification.industry &&
-        ae.industries?.includes(qualification.industry);
-      const hasCapacity =
-        !ae.maxActiveLeads ||
-        (ae.currentLeadCount || 0) < ae.maxActiveLeads;
+      case 'assign': {
+        const assignedTo = eligible.find(
+          (member) => member.id === action.repId
+        );
+        return assignedTo ? { assignedTo } : null;
+      }
 
-      return hasIndustryMatch && hasCapacity;
-    });
+      case 'round_robin':
+        return this.pickInRotation(
+          `group:${action.group}`,
+          eligible.filter((member) => action.repIds.includes(member.id))
+        );
+
+      case 'pool': {
+        const { industry } = qualification;
+        let pool = eligible.filter(
+          (member) =>
+            (!action.roles || action.roles.includes(member.role)) &&
+            (!action.repIds || action.repIds.includes(member.id)) &&
+            (!action.requireIndustryMatch ||
+              (!!industry && member.industries?.includes(industry)))
+        );
 
-    if (match) return match;
+        // Reps covering the lead's territory come first within the pool
+        if (options.useTerritory) {
+          const territoryTeam = this.findTerritoryTeam(pool, context.region);
+          if (territoryTeam.length > 0 || action.requireTerritoryMatch) {
+            pool = territoryTeam;
+          }
+        } else if (action.requireTerritoryMatch) {
+          return null;
+        }
 
-    // Fallback to least busy enterprise AE
-    return this.findLeastBusyRep(enterpriseAEs);
+        const experts = industry
+          ? pool.filter((member) => member.industries?.includes(industry))
+          : [];
+        const candidates = experts.length > 0 ? experts : pool;
+
+        if (action.distribution === 'round_robin') {
+          return this.pickInRotation(`rule:${rule.id}`, candidates);
+        }
+
+        const assignedTo = this.findLeastBusyRep(candidates);
+        return assignedTo ? { assignedTo } : null;
+      }
+    }
   }
 
   /**
-   * Find rep with industry expertise
+   * Pick the rep whose turn it is in a pool's weighted rotation
    */
-  private findIndustryExpert(
-    industry: z.infer<typeof industrySchema>
-  ): SalesTeamMember | null {
-    const experts = this.salesTeam.filter(
-      (member) => member.industries?.includes(industry)
+  private pickInRotation(pool: string, team: SalesTeamMember[]) {
+    const candidates = team.map((member) => ({
+      id: member.id,
+      weight: member.routingWeight ?? 1
+    }));
+    const repId = pickNextInRotation(candidates, this.rotations[pool]);
+    const assignedTo = team.find((member) => member.id === repId);
+
+    return assignedTo ? { assignedTo, rotation: { pool, candidates } } : null;
+  }
+
+  /**
+   * Whether a rep can respond within the lead priority's response window
+   */
+  private isAvailable(
+    member: SalesTeamMember,
+    qualification: QualificationSchema
+  ) {
+    return isAvailableWithin(
+      member,
+      responseWindowMs[qualification.priority],
+      this.now()
     );
+  }
+
+  /**
+   * Find the reps whose territory covers the lead's region most specifically
+   *
+   * A rep covering the lead's US state beats one covering the country, which
+   * beats one covering the whole region.
+   */
+  private findTerritoryTeam(
+    team: SalesTeamMember[],
+    region?: LeadRegion | null
+  ): SalesTeamMember[] {
+    if (!region) return [];
 
-    if (experts.length === 0) return null;
+    const levels = team.map((member) => territoryLevel(member, region));
+    const best = Math.max(0, ...levels);
+    if (best === 0) return [];
 
-    return this.findLeastBusyRep(experts);
+    return team.filter((_, index) => levels[index] === best);
   }
 
   /**
-   * Find least busy rep (round-robin)
+   * Find least busy rep
    */
   private findLeastBusyRep(
     team: SalesTeamMember[] = this.salesTeam
@@ -128,44 +493,313 @@ export class LeadRouter {
     });
   }
 
+  /**
+   * Explain why no rep was eligible for a lead
+   */
+  private describeIneligibility(qualification: QualificationSchema) {
+    const reps = this.salesTeam.filter(
+      (member) => member.role !== 'TEAM_LEAD'
+    );
+    const size = qualification.companySize;
+    const covering = reps.filter((member) => coversCompanySize(member, size));
+
+    if (covering.length === 0) {
+      return `no rep covers ${size} accounts`;
+    }
+    if (covering.some(hasCapacity)) {
+      return 'no routing rule matched an eligible rep';
+    }
+
+    return size && size !== 'UNKNOWN'
+      ? `all reps covering ${size} accounts are at capacity`
+      : 'all reps are at capacity';
+  }
+
   /**
    * Get routing recommendation with explanation
+   *
+   * The explanation names the deciding rule and ends with the trace of every
+   * rule evaluated. When no rule assigns a rep the lead goes to the least
+   * busy team lead, or to the unassigned queue if the team has no team lead.
    */
-  getRoutingRecommendation(qualification: QualificationSchema): {
-    assignedTo: SalesTeamMember | null;
-    reason: string;
-  } {
-    const assignedTo = this.routeLead(qualification);
+  getRoutingRecommendation(
+    qualification: QualificationSchema,
+    context: RoutingContext = {}
+  ): RoutingRecommendation {
+    if (this.salesTeam.length === 0) {
+      return {
+        assignedTo: null,
+        reason: 'No sales team configured. Please assign manually.',
+        trace: []
+      };
+    }
+
+    const { rule, assignedTo, rotation, queue, trace } = this.route(
+      qualification,
+      context,
+      true
+    );
+    const ruleTrace = ` - Rule trace: ${formatTrace(trace)}`;
+    const ruleNote = rule
+      ? ` - Rule ${rule.id}${rule.description ? `: ${rule.description}` : ''}`
+      : '';
+
+    if (queue) {
+      return {
+        assignedTo: null,
+        reason: `Routed to the ${queue} queue${ruleNote}${ruleTrace}`,
+        ruleId: rule?.id,
+        queue,
+        trace
+      };
+    }
 
     if (!assignedTo) {
+      const ineligibility = this.describeIneligibility(qualification);
+      const teamLead = this.findLeastBusyRep(
+        this.salesTeam.filter((member) => member.role === 'TEAM_LEAD')
+      );
+
+      if (teamLead) {
+        return {
+          assignedTo: teamLead,
+          reason: `Assigned to ${teamLead.name} (${teamLead.role}) - Fallback: ${ineligibility}${ruleTrace}`,
+          fallback: 'TEAM_LEAD',
+          trace
+        };
+      }
+
       return {
         assignedTo: null,
-        reason: 'No sales team configured. Please assign manually.'
+        reason: `Unassigned queue - ${ineligibility}${ruleTrace}`,
+        fallback: 'UNASSIGNED',
+        trace
       };
     }
 
-    let reason = `Assigned to ${assignedTo.name} (${assignedTo.role})`;
+    let reason = `Assigned to ${assignedTo.name} (${assignedTo.role})${ruleNote}`;
 
-    if (qualification.category === 'HOT_LEAD') {
-      reason += ' - Hot lead requires enterprise AE';
-    } else if (qualification.companySize === 'ENTERPRISE') {
-      reason += ' - Enterprise account';
-    } else if (
-      qualification.industry &&
-      assignedTo.industries?.includes(qualification.industry)
-    ) {
-      reason += ` - Industry expertise: ${qualification.industry}`;
+    // Territory decided the assignment if routing without it picks someone else
+    const { region } = context;
+    const territory =
+      region &&
+      assignedTo.territories?.find(
+        (territory) => territoryMatchLevel(territory, region) > 0
+      );
+    const withoutTerritory = this.route(qualification, context, false);
+    if (territory && withoutTerritory.assignedTo?.id !== assignedTo.id) {
+      reason += ` - Territory: ${territory} (lead in ${describeLeadRegion(region)})`;
+    }
+
+    // Note reps passed over because they are away or off shift
+    const now = this.now();
+    if (!this.isAvailable(assignedTo, qualification)) {
+      reason += ` - Nobody is available within the ${qualification.priority} response window; ${assignedTo.name} is ${describeUnavailability(assignedTo, now)}`;
     } else {
-      reason += ' - Best available capacity';
+      const skipped = this.evaluate(qualification, context, {
+        requireAvailable: false,
+        useTerritory: true
+      }).assignedTo;
+      if (skipped && skipped.id !== assignedTo.id) {
+        reason += ` - Skipped ${skipped.name} (${describeUnavailability(skipped, now)})`;
+      }
+    }
+
+    return {
+      assignedTo,
+      reason: reason + ruleTrace,
+      ruleId: rule?.id,
+      rotation,
+      trace
+    };
+  }
+
+  /**
+   * Reps who could take a lead: not team leads, below capacity and covering
+   * its company size
+   */
+  getEligibleReps(qualification: QualificationSchema): SalesTeamMember[] {
+    return this.salesTeam.filter(
+      (member) =>
+        this.describeFilters(member, qualification, false).length === 0
+    );
+  }
+
+  /**
+   * Rank every rep for a lead and explain why each one didn't get it
+   *
+   * The pick comes first, then reps by the first rule that would consider
+   * them and their workload. Eliminations list the eligibility filters a rep
+   * fails and how the deciding rule passed them over.
+   */
+  rankCandidates(
+    qualification: QualificationSchema,
+    context: RoutingContext = {},
+    recommendation = this.getRoutingRecommendation(qualification, context)
+  ): CandidateRanking[] {
+    const picked = recommendation.assignedTo;
+    const decidingRule = this.rules.find(
+      (rule) => rule.id === recommendation.ruleId
+    );
+    const matchingRules = this.rules.filter(
+      (rule) =>
+        rule.enabled !== false &&
+        !findRuleMismatch(rule, qualification, context)
+    );
+
+    // Availability only ruled reps out if the pick itself was available
+    const checkAvailability =
+      !picked || this.isAvailable(picked, qualification);
+
+    const candidates = this.salesTeam.map((member) => {
+      const selected = member.id === picked?.id;
+      const ruleIndex = matchingRules.findIndex(
+        (rule) => !describePoolExclusion(rule, member, qualification, context)
+      );
+      const filters = this.describeFilters(
+        member,
+        qualification,
+        checkAvailability
+      );
+      const eliminatedBy: string[] = [];
+
+      if (!selected) {
+        eliminatedBy.push(...filters);
+
+        if (recommendation.queue) {
+          eliminatedBy.push(
+            `rule ${recommendation.ruleId} sent the lead to the ${recommendation.queue} queue`
+          );
+        } else if (decidingRule && picked) {
+          const exclusion = describePoolExclusion(
+            decidingRule,
+            member,
+            qualification,
+            context
+          );
+          if (exclusion) {
+            eliminatedBy.push(exclusion);
+          } else if (filters.length === 0) {
+            eliminatedBy.push(
+              this.describePreference(
+                decidingRule,
+                member,
+                picked,
+                qualification,
+                context
+              )
+            );
+          }
+        } else if (recommendation.fallback && filters.length === 0) {
+          eliminatedBy.push('no routing rule matching the lead includes them');
+        }
+      }
+
+      return {
+        member,
+        selected,
+        eligible: filters.length === 0,
+        ruleIndex: ruleIndex === -1 ? Infinity : ruleIndex,
+        eliminatedBy
+      };
+    });
+
+    candidates.sort(
+      (a, b) =>
+        Number(b.selected) - Number(a.selected) ||
+        Number(b.eligible) - Number(a.eligible) ||
+        a.ruleIndex - b.ruleIndex ||
+        (a.member.currentLeadCount || 0) - (b.member.currentLeadCount || 0)
+    );
+
+    return candidates.map(
+      ({ member, selected, ruleIndex, eliminatedBy }, i) => ({
+        rank: i + 1,
+        repId: member.id,
+        name: member.name,
+        role: member.role,
+        activeLeads: member.currentLeadCount || 0,
+        selected,
+        ruleId: matchingRules[ruleIndex]?.id,
+        eliminatedBy
+      })
+    );
+  }
+
+  /**
+   * Eligibility filters a rep fails for a lead
+   */
+  private describeFilters(
+    member: SalesTeamMember,
+    qualification: QualificationSchema,
+    checkAvailability = true
+  ): string[] {
+    const reasons: string[] = [];
+
+    if (member.role === 'TEAM_LEAD') {
+      reasons.push('team leads only receive fallback leads');
+    }
+    if (!hasCapacity(member)) {
+      reasons.push(
+        `at capacity (${member.currentLeadCount || 0}/${member.maxActiveLeads})`
+      );
+    }
+    if (!coversCompanySize(member, qualification.companySize)) {
+      reasons.push(`doesn't cover ${qualification.companySize} accounts`);
+    }
+    if (checkAvailability && !this.isAvailable(member, qualification)) {
+      reasons.push(
+        `not available within the ${qualification.priority} response window (${describeUnavailability(member, this.now())})`
+      );
     }
 
-    return { assignedTo, reason };
+    return reasons;
+  }
+
+  /**
+   * Why the deciding rule picked another rep from the same pool
+   */
+  private describePreference(
+    rule: RoutingRule,
+    member: SalesTeamMember,
+    picked: SalesTeamMember,
+    qualification: QualificationSchema,
+    context: RoutingContext
+  ) {
+    const { industry } = qualification;
+    const action = rule.then;
+
+    if (
+      action.type === 'pool' &&
+      territoryLevel(picked, context.region) >
+        territoryLevel(member, context.region)
+    ) {
+      return `rule ${rule.id} preferred ${picked.name}, who covers the lead's territory more specifically`;
+    }
+    if (
+      action.type === 'pool' &&
+      industry &&
+      picked.industries?.includes(industry) &&
+      !member.industries?.includes(industry)
+    ) {
+      return `rule ${rule.id} preferred ${picked.name}, who has ${industry} expertise`;
+    }
+    if (
+      action.type === 'round_robin' ||
+      (action.type === 'pool' && action.distribution === 'round_robin')
+    ) {
+      return `it was ${picked.name}'s turn in the rule ${rule.id} rotation`;
+    }
+
+    return `rule ${rule.id} preferred ${picked.name}, who has fewer open leads (${picked.currentLeadCount || 0} vs ${member.currentLeadCount || 0})`;
   }
 }
 
 /**
  * Example sales team configuration
- * This would typically come from a database or CRM
+ *
+ * Used until the team is edited through `/api/sales-team` or loaded from
+ * `SALES_TEAM_FILE` (see `lib/sales-team.ts`)
  */
 export const defaultSalesTeam: SalesTeamMember[] = [
   {
@@ -173,54 +807,65 @@ export const defaultSalesTeam: SalesTeamMember[] = [
     name: 'Sarah Chen',
     email: 'sarah.chen@company.com',
     role: 'ENTERPRISE_AE',
+    territories: ['NA'],
     industries: ['TECHNOLOGY', 'FINANCE'],
     companySizes: ['ENTERPRISE', 'MID_MARKET'],
     maxActiveLeads: 15,
-    currentLeadCount: 8
+    timeZone: 'America/Los_Angeles',
+    workingHours: { start: '08:00', end: '17:00' }
   },
   {
     id: 'ae-2',
     name: 'Michael Rodriguez',
     email: 'michael.rodriguez@company.com',
     role: 'ENTERPRISE_AE',
+    territories: ['EMEA', 'APAC'],
     industries: ['HEALTHCARE', 'FINANCE'],
     companySizes: ['ENTERPRISE', 'MID_MARKET'],
     maxActiveLeads: 15,
-    currentLeadCount: 12
+    timeZone: 'Europe/London',
+    workingHours: { start: '09:00', end: '18:00' }
   },
   {
     id: 'ae-3',
     name: 'David Kim',
     email: 'david.kim@company.com',
     role: 'AE',
+    territories: ['US-CA', 'US-WA', 'US-OR'],
     industries: ['TECHNOLOGY', 'RETAIL'],
     companySizes: ['MID_MARKET', 'SMB'],
     maxActiveLeads: 25,
-    currentLeadCount: 18
+    timeZone: 'America/Los_Angeles',
+    workingHours: { start: '09:00', end: '17:00' }
   },
   {
     id: 'sdr-1',
     name: 'Emily Johnson',
     email: 'emily.johnson@company.com',
     role: 'SDR',
+    territories: ['NA'],
     industries: ['TECHNOLOGY', 'EDUCATION'],
     companySizes: ['SMB', 'STARTUP'],
     maxActiveLeads: 40,
-    currentLeadCount: 25
+    timeZone: 'America/Chicago',
+    workingHours: { start: '08:00', end: '17:00' }
   },
   {
     id: 'sdr-2',
     name: 'James Wilson',
     email: 'james.wilson@company.com',
     role: 'SDR',
+    territories: ['EMEA'],
     industries: ['RETAIL', 'MANUFACTURING'],
     companySizes: ['SMB', 'STARTUP'],
     maxActiveLeads: 40,
-    currentLeadCount: 30
+    timeZone: 'Europe/London',
+    workingHours: { start: '09:00', end: '17:30' }
+  },
+  {
+    id: 'lead-1',
+    name: 'Alex Morgan',
+    email: 'alex.morgan@company.com',
+    role: 'TEAM_LEAD'
   }
 ];
-
-/**
- * Initialize global lead router
- */
-export const leadRouter = new LeadRouter(defaultSalesTeam);
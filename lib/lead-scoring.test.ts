@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { defaultScoringModel, scoreLead } from '@/lib/lead-scoring';
+
+describe('scoreLead', () => {
+  it('adds up every matching factor and blends with the LLM score', () => {
+    const { leadScore, scoring } = scoreLead(
+      {
+        email: 'dana@acme.io',
+        name: 'Dana Smith',
+        message: 'I am the CTO at Acme and we need pricing this quarter.'
+      },
+      {
+        companySize: 'MID_MARKET',
+        industry: 'TECHNOLOGY',
+        fundingInfo: 'Raised a Series B in 2025'
+      },
+      { leadScore: 70 }
+    );
+
+    expect(scoring.factors).toEqual([
+      { factor: 'Company size', detail: 'MID_MARKET', points: 20 },
+      { factor: 'Industry fit', detail: 'TECHNOLOGY', points: 15 },
+      { factor: 'Email domain', detail: 'Corporate (acme.io)', points: 10 },
+      { factor: 'Seniority', detail: 'Executive ("cto")', points: 15 },
+      { factor: 'Intent', detail: 'Buying signals ("pricing")', points: 10 },
+      { factor: 'Intent', detail: 'Urgency ("this quarter")', points: 10 },
+      { factor: 'Funding', detail: 'Growth stage ("series b")', points: 10 }
+    ]);
+    expect(scoring.ruleScore).toBe(100);
+    expect(scoring.llmScore).toBe(70);
+    expect(leadScore).toBe(85);
+  });
+
+  it('clamps the rule score at 0', () => {
+    const { leadScore, scoring } = scoreLead(
+      {
+        email: 'jane@gmail.com',
+        name: 'Jane Doe',
+        message: 'Looking for a job or internship at your company.'
+      },
+      {},
+      { leadScore: 10 }
+    );
+
+    expect(scoring.factors).toEqual([
+      { factor: 'Email domain', detail: 'Free mail provider', points: -10 },
+      { factor: 'Intent', detail: 'Not a buyer ("job")', points: -20 }
+    ]);
+    expect(scoring.ruleScore).toBe(0);
+    expect(leadScore).toBe(5);
+  });
+
+  it("falls back to the LLM's industry and company size", () => {
+    const { scoring } = scoreLead(
+      {
+        email: 'sam@bank.com',
+        name: 'Sam Lee',
+        message: 'Hello, please tell me more about it.'
+      },
+      {},
+      { leadScore: 50, industry: 'FINANCE', companySize: 'SMB' }
+    );
+
+    expect(scoring.factors).toEqual([
+      { factor: 'Company size', detail: 'SMB', points: 10 },
+      { factor: 'Industry fit', detail: 'FINANCE', points: 12 },
+      { factor: 'Email domain', detail: 'Corporate (bank.com)', points: 10 }
+    ]);
+    expect(scoring.ruleScore).toBe(52);
+  });
+
+  it('only counts the first matching seniority rule', () => {
+    const { scoring } = scoreLead(
+      {
+        email: 'kim@acme.io',
+        name: 'Kim Park',
+        message: 'Our founder asked me, the VP of Sales, to reach out.'
+      },
+      {},
+      { leadScore: 50 }
+    );
+
+    expect(
+      scoring.factors.filter((factor) => factor.factor === 'Seniority')
+    ).toEqual([
+      { factor: 'Seniority', detail: 'Executive ("founder")', points: 15 }
+    ]);
+  });
+
+  it('matches keywords as whole words', () => {
+    const { scoring } = scoreLead(
+      {
+        email: 'kim@acme.io',
+        name: 'Kim Park',
+        message: 'We are rebuying our tooling and need a director.'
+      },
+      {},
+      { leadScore: 50 }
+    );
+
+    expect(scoring.factors.map((factor) => factor.detail)).toEqual([
+      'Corporate (acme.io)',
+      'VP / Director ("director")'
+    ]);
+  });
+
+  it('weights the rule and LLM scores as configured', () => {
+    const lead = {
+      email: 'sam@bank.com',
+      name: 'Sam Lee',
+      message: 'Hello, please tell me more about it.'
+    };
+
+    expect(
+      scoreLead(
+        lead,
+        {},
+        { leadScore: 90 },
+        { ...defaultScoringModel, weights: { rules: 1, llm: 0 } }
+      ).leadScore
+    ).toBe(30);
+    expect(
+      scoreLead(
+        lead,
+        {},
+        { leadScore: 90 },
+        { ...defaultScoringModel, weights: { rules: 1, llm: 3 } }
+      ).leadScore
+    ).toBe(75);
+  });
+});
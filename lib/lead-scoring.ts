@@ -0,0 +1,273 @@
+import path from 'path';
+import { z } from 'zod';
+import { getCompanyDomain } from '@/lib/email-domains';
+import { JsonConfigFile } from '@/lib/file-store';
+import {
+  companySizeSchema,
+  FormSchema,
+  industrySchema,
+  LeadEnrichmentSchema,
+  LeadScoring
+} from '@/lib/types';
+
+/**
+ * Points given when the lead's text contains any of the keywords (matched
+ * as whole words, case-insensitive)
+ */
+export const keywordRuleSchema = z.object({
+  label: z.string(),
+  keywords: z.array(z.string().min(1)).min(1),
+  points: z.number()
+});
+
+export type KeywordRule = z.infer<typeof keywordRuleSchema>;
+
+/**
+ * Deterministic points model for lead scoring
+ *
+ * The rule score is `baseScore` plus the points of every factor, clamped to
+ * 0-100. `seniority` and `funding` rules are checked in order and only the
+ * first match counts; every matching `intent` rule counts.
+ */
+export const scoringModelSchema = z.object({
+  // Share of the rule score and the LLM score in the final `leadScore`
+  weights: z
+    .object({ rules: z.number().min(0), llm: z.number().min(0) })
+    .refine((weights) => weights.rules + weights.llm > 0, {
+      message: 'At least one weight must be positive'
+    }),
+  baseScore: z.number().min(0).max(100),
+  companySize: z.partialRecord(companySizeSchema, z.number()),
+  industry: z.partialRecord(industrySchema, z.number()),
+  emailDomain: z.object({ corporate: z.number(), freeMail: z.number() }),
+  // Matched against the lead's message (the form has no job title field)
+  seniority: z.array(keywordRuleSchema),
+  // Matched against the lead's message
+  intent: z.array(keywordRuleSchema),
+  // Matched against the enrichment's funding, revenue and news
+  funding: z.array(keywordRuleSchema)
+});
+
+export type ScoringModel = z.infer<typeof scoringModelSchema>;
+
+export const defaultScoringModel: ScoringModel = {
+  weights: { rules: 0.5, llm: 0.5 },
+  baseScore: 20,
+  companySize: {
+    ENTERPRISE: 25,
+    MID_MARKET: 20,
+    SMB: 10,
+    STARTUP: 5
+  },
+  industry: {
+    TECHNOLOGY: 15,
+    FINANCE: 12,
+    HEALTHCARE: 10,
+    RETAIL: 8,
+    MANUFACTURING: 8,
+    EDUCATION: 5,
+    GOVERNMENT: 5,
+    NONPROFIT: 2
+  },
+  emailDomain: { corporate: 10, freeMail: -10 },
+  seniority: [
+    {
+      label: 'Executive',
+      keywords: [
+        'ceo',
+        'cto',
+        'cio',
+        'coo',
+        'cfo',
+        'chief',
+        'founder',
+        'co-founder',
+        'president'
+      ],
+      points: 15
+    },
+    {
+      label: 'VP / Director',
+      keywords: ['vp', 'vice president', 'head of', 'director'],
+      points: 10
+    },
+    { label: 'Manager', keywords: ['manager'], points: 5 }
+  ],
+  intent: [
+    {
+      label: 'Buying signals',
+      keywords: [
+        'pricing',
+        'quote',
+        'demo',
+        'trial',
+        'purchase',
+        'buy',
+        'contract',
+        'budget'
+      ],
+      points: 10
+    },
+    {
+      label: 'Urgency',
+      keywords: [
+        'asap',
+        'urgent',
+        'immediately',
+        'this quarter',
+        'this month',
+        'deadline'
+      ],
+      points: 10
+    },
+    {
+      label: 'Evaluating alternatives',
+      keywords: ['evaluating', 'comparing', 'alternative', 'switch', 'migrate'],
+      points: 5
+    },
+    {
+      label: 'Not a buyer',
+      keywords: ['job', 'resume', 'internship', 'sponsorship', 'unsubscribe'],
+      points: -20
+    }
+  ],
+  funding: [
+    {
+      label: 'Late stage or public',
+      keywords: [
+        'series c',
+        'series d',
+        'series e',
+        'ipo',
+        'publicly traded',
+        'nasdaq',
+        'nyse'
+      ],
+      points: 15
+    },
+    { label: 'Growth stage', keywords: ['series a', 'series b'], points: 10 },
+    { label: 'Early stage', keywords: ['seed', 'pre-seed', 'angel'], points: 5 }
+  ]
+};
+
+const modelFile = new JsonConfigFile(
+  'scoring model',
+  scoringModelSchema.partial()
+);
+
+/**
+ * Active scoring model
+ *
+ * Sections from `SCORING_MODEL_FILE` (e.g. just `weights`) replace the
+ * matching sections of `defaultScoringModel`. The file is re-read when it
+ * changes; if it is missing or invalid (and never loaded), the default model
+ * is used so leads still get scored.
+ */
+export async function getScoringModel(): Promise<ScoringModel> {
+  if (!process.env.SCORING_MODEL_FILE) return defaultScoringModel;
+
+  try {
+    const overrides = await modelFile.load(
+      path.resolve(process.env.SCORING_MODEL_FILE)
+    );
+    return { ...defaultScoringModel, ...overrides };
+  } catch (error) {
+    console.warn(
+      '⚠️  Using the default scoring model, SCORING_MODEL_FILE could not be loaded:',
+      error
+    );
+    return defaultScoringModel;
+  }
+}
+
+function findKeyword(text: string, rule: KeywordRule) {
+  return rule.keywords.find((keyword) =>
+    new RegExp(
+      `\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`,
+      'i'
+    ).test(text)
+  );
+}
+
+/**
+ * Score a lead with the points model and blend it with the LLM score
+ *
+ * Returns the blended score (rounded, 0-100) and the factor-by-factor
+ * breakdown. Factors worth no points are left out.
+ */
+export function scoreLead(
+  lead: FormSchema,
+  enrichment: LeadEnrichmentSchema,
+  llm: { leadScore: number; industry?: string; companySize?: string },
+  model: ScoringModel = defaultScoringModel
+): { leadScore: number; scoring: LeadScoring } {
+  const factors: LeadScoring['factors'] = [];
+  const add = (factor: string, detail: string, points = 0) => {
+    if (points !== 0) factors.push({ factor, detail, points });
+  };
+
+  const companySize = companySizeSchema.safeParse(
+    enrichment.companySize ?? llm.companySize
+  ).data;
+  if (companySize) {
+    add('Company size', companySize, model.companySize[companySize]);
+  }
+
+  const industry = industrySchema.safeParse(
+    enrichment.industry ?? llm.industry
+  ).data;
+  if (industry) add('Industry fit', industry, model.industry[industry]);
+
+  const domain = getCompanyDomain(lead.email);
+  add(
+    'Email domain',
+    domain ? `Corporate (${domain})` : 'Free mail provider',
+    domain ? model.emailDomain.corporate : model.emailDomain.freeMail
+  );
+
+  for (const rule of model.seniority) {
+    const keyword = findKeyword(lead.message, rule);
+    if (keyword) {
+      add('Seniority', `${rule.label} ("${keyword}")`, rule.points);
+      break;
+    }
+  }
+
+  for (const rule of model.intent) {
+    const keyword = findKeyword(lead.message, rule);
+    if (keyword) add('Intent', `${rule.label} ("${keyword}")`, rule.points);
+  }
+
+  const fundingText = [
+    enrichment.fundingInfo,
+    enrichment.revenue,
+    ...(enrichment.recentNews ?? [])
+  ]
+    .filter(Boolean)
+    .join('\n');
+  for (const rule of model.funding) {
+    const keyword = findKeyword(fundingText, rule);
+    if (keyword) {
+      add('Funding', `${rule.label} ("${keyword}")`, rule.points);
+      break;
+    }
+  }
+
+  const ruleScore = Math.min(
+    100,
+    Math.max(
+      0,
+      factors.reduce((sum, factor) => sum + factor.points, model.baseScore)
+    )
+  );
+  const { weights } = model;
+  const leadScore = Math.round(
+    (ruleScore * weights.rules + llm.leadScore * weights.llm) /
+      (weights.rules + weights.llm)
+  );
+
+  return {
+    leadScore,
+    scoring: { ruleScore, llmScore: llm.leadScore, weights, factors }
+  };
+}
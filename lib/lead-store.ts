@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import {
+  FollowUpEmail,
+  FormSchema,
+  LeadEnrichmentSchema,
+  LeadSource,
+  LeadStatus,
+  QualificationSchema,
+  RejectionReason,
+  ReplyClassification
+} from '@/lib/types';
+import { JsonFileCollection } from '@/lib/file-store';
+import type { LeadSla } from '@/lib/sla';
+import type { OutboundProspect } from '@/workflows/outbound';
+import type {
+  MultiTouchSequence,
+  ProspectQualification,
+  TouchPoint
+} from '@/workflows/outbound/steps';
+
+/**
+ * Delivery attempt recorded on a lead
+ */
+export interface SentEmailRecord {
+  to: string;
+  subject: string;
+  status: 'sent' | 'failed';
+  messageId?: string;
+  transport?: string;
+  error?: string;
+  sentAt: string;
+}
+
+/**
+ * Human review decision from Slack
+ */
+export interface LeadReview {
+  decision: 'APPROVED' | 'REJECTED';
+  reviewedBy: string;
+  reviewedAt: string;
+  reason?: RejectionReason;
+  feedback?: string;
+}
+
+/**
+ * Draft replaced after a reviewer rejected it with feedback
+ */
+export interface EmailRevision {
+  previousEmail: string;
+  review: LeadReview;
+  revisedAt: string;
+}
+
+/**
+ * Reviewer edit of the draft in Slack, kept for comparing AI and human versions
+ */
+export interface EmailEdit {
+  originalEmail: string;
+  editedEmail: string;
+  editedBy: string;
+  editedAt: string;
+}
+
+/**
+ * Follow-up email with its delivery state
+ */
+export interface ScheduledFollowUp extends FollowUpEmail {
+  status: 'pending' | 'sent' | 'cancelled' | 'failed';
+  sentAt?: string;
+  error?: string;
+}
+
+/**
+ * Email reply received from the lead
+ */
+export interface LeadReply {
+  id: string;
+  from: string;
+  subject: string;
+  text: string;
+  messageId?: string;
+  receivedAt: string;
+  classification?: ReplyClassification;
+}
+
+/**
+ * Repeat form submission merged into an existing inbound lead
+ */
+export interface LeadSubmission {
+  input: FormSchema;
+  matchedBy: 'email' | 'domain';
+  submittedAt: string;
+  requalified?: boolean;
+}
+
+/**
+ * Outbound touchpoint with its execution state
+ */
+export interface TouchPointState extends TouchPoint {
+  status: 'pending' | 'in_progress' | 'sent' | 'skipped' | 'failed';
+  completedAt?: string;
+  taskId?: string;
+  error?: string;
+}
+
+/**
+ * Statuses that stop any running follow-up sequence
+ */
+export const sequenceStopStatuses: LeadStatus[] = [
+  'REPLIED',
+  'MEETING_BOOKED',
+  'UNSUBSCRIBED',
+  'BOUNCED',
+  'CLOSED'
+];
+
+/**
+ * Whether sends to the lead are on hold (e.g. until they are back from leave)
+ */
+export function isLeadSnoozed(lead: { snoozedUntil?: string }) {
+  return !!lead.snoozedUntil && Date.parse(lead.snoozedUntil) > Date.now();
+}
+
+/**
+ * Fields shared by inbound and outbound lead records
+ */
+interface BaseLeadRecord {
+  id: string;
+  workflowRunId?: string;
+  status: LeadStatus;
+  /** Sales rep the lead is routed to (see `lib/lead-routing.ts`) */
+  assignedRepId?: string;
+  research?: string;
+  email?: string;
+  slack?: {
+    channel: string;
+    messageTs: string;
+  };
+  review?: LeadReview;
+  revisions?: EmailRevision[];
+  edits?: EmailEdit[];
+  sentEmails?: SentEmailRecord[];
+  /** Set while the approved email is `SENDING` (see `sendApprovedLeadEmail`) */
+  sendClaim?: {
+    claimedAt: string;
+    claimedFrom: LeadStatus;
+  };
+  replies?: LeadReply[];
+  snoozedUntil?: string;
+  /** Response SLA, timed from submission (see `lib/sla.ts`) */
+  sla?: LeadSla;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lead submitted through the inbound form
+ */
+export interface InboundLeadRecord extends BaseLeadRecord {
+  source: 'inbound';
+  input: FormSchema;
+  enrichment?: LeadEnrichmentSchema;
+  qualification?: QualificationSchema;
+  followUpSequence?: ScheduledFollowUp[];
+  timeline?: LeadSubmission[];
+}
+
+/**
+ * Prospect targeted by the outbound workflow
+ */
+export interface OutboundLeadRecord extends BaseLeadRecord {
+  source: 'outbound';
+  input: OutboundProspect;
+  qualification?: ProspectQualification;
+  sequence?: MultiTouchSequence;
+  touchPoints?: TouchPointState[];
+  sequencePaused?: boolean;
+  accountId?: string;
+}
+
+export type LeadRecord = InboundLeadRecord | OutboundLeadRecord;
+
+export type NewLeadRecord =
+  | Pick<InboundLeadRecord, 'source' | 'input' | 'workflowRunId'>
+  | Pick<
+      OutboundLeadRecord,
+      'source' | 'input' | 'workflowRunId' | 'accountId'
+    >;
+
+type MutableFields<T> = Partial<Omit<T, 'id' | 'source' | 'createdAt'>>;
+
+export type LeadPatch =
+  | MutableFields<InboundLeadRecord>
+  | MutableFields<OutboundLeadRecord>;
+
+/**
+ * Filters for looking up stored leads
+ */
+export interface LeadQuery {
+  source?: LeadSource;
+  status?: LeadStatus;
+  email?: string;
+  workflowRunId?: string;
+  slackMessageTs?: string;
+  sentMessageId?: string;
+  createdAfter?: string;
+  accountId?: string;
+  assignedRepId?: string;
+}
+
+/**
+ * Storage interface for lead records
+ *
+ * Implementations can be swapped with `setLeadStore()` (e.g. Postgres, KV, CRM).
+ */
+export interface LeadStore {
+  create(lead: NewLeadRecord): Promise<LeadRecord>;
+  get(id: string): Promise<LeadRecord | null>;
+  update(
+    id: string,
+    patch: LeadPatch | ((current: LeadRecord) => LeadPatch)
+  ): Promise<LeadRecord>;
+  find(query?: LeadQuery): Promise<LeadRecord[]>;
+}
+
+/**
+ * Check whether a lead matches every provided filter
+ */
+export function matchesLeadQuery(lead: LeadRecord, query: LeadQuery) {
+  if (query.source && lead.source !== query.source) return false;
+  if (query.status && lead.status !== query.status) return false;
+  if (
+    query.email &&
+    lead.input.email.toLowerCase() !== query.email.toLowerCase()
+  ) {
+    return false;
+  }
+  if (query.workflowRunId && lead.workflowRunId !== query.workflowRunId) {
+    return false;
+  }
+  if (query.slackMessageTs && lead.slack?.messageTs !== query.slackMessageTs) {
+    return false;
+  }
+  if (query.createdAfter && lead.createdAt < query.createdAfter) return false;
+  if (query.assignedRepId && lead.assignedRepId !== query.assignedRepId) {
+    return false;
+  }
+  if (
+    query.accountId &&
+    (lead.source !== 'outbound' || lead.accountId !== query.accountId)
+  ) {
+    return false;
+  }
+  if (
+    query.sentMessageId &&
+    !lead.sentEmails?.some((sent) => sent.messageId === query.sentMessageId)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Local file-backed lead store
+ */
+export class FileLeadStore implements LeadStore {
+  private collection = new JsonFileCollection<LeadRecord>('leads');
+
+  async create(lead: NewLeadRecord): Promise<LeadRecord> {
+    const now = new Date().toISOString();
+    const record = {
+      ...lead,
+      id: randomUUID(),
+      status: 'PROCESSING',
+      createdAt: now,
+      updatedAt: now
+    } as LeadRecord;
+
+    return this.collection.put(record);
+  }
+
+  async get(id: string): Promise<LeadRecord | null> {
+    return this.collection.get(id);
+  }
+
+  /**
+   * Apply a patch, or one computed from the current record while the store
+   * is locked (throw from `patch` to abort without writing)
+   */
+  async update(
+    id: string,
+    patch: LeadPatch | ((current: LeadRecord) => LeadPatch)
+  ): Promise<LeadRecord> {
+    const updated = await this.collection.update(
+      id,
+      (current) =>
+        ({
+          ...current,
+          ...(typeof patch === 'function' ? patch(current) : patch),
+          updatedAt: new Date().toISOString()
+        }) as LeadRecord
+    );
+
+    if (!updated) {
+      throw new Error(`Lead not found: ${id}`);
+    }
+
+    return updated;
+  }
+
+  async find(query: LeadQuery = {}): Promise<LeadRecord[]> {
+    const leads = await this.collection.list();
+    return leads
+      .filter((lead) => matchesLeadQuery(lead, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+let leadStore: LeadStore = new FileLeadStore();
+
+/**
+ * Get the active lead store
+ */
+export function getLeadStore(): LeadStore {
+  return leadStore;
+}
+
+/**
+ * Replace the lead store implementation
+ */
+export function setLeadStore(store: LeadStore) {
+  leadStore = store;
+}
@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto';
+import { JsonFileCollection } from '@/lib/file-store';
+import { getLeadStore, LeadRecord } from '@/lib/lead-store';
+import { LeadStatus } from '@/lib/types';
+import {
+  OutboundProspect,
+  outboundProspectSchema
+} from '@/workflows/outbound';
+
+/**
+ * Largest number of rows accepted in a single batch
+ */
+export const MAX_BATCH_ROWS = 1000;
+
+/**
+ * Maps source columns (CSV headers or JSON keys) to `OutboundProspect` fields
+ */
+export type ColumnMapping = Record<string, keyof OutboundProspect>;
+
+/**
+ * One input row of a batch and what happened to it
+ */
+export interface OutboundBatchRow {
+  row: number;
+  status: 'rejected' | 'queued' | 'started' | 'failed';
+  prospect?: OutboundProspect;
+  errors?: string[];
+  workflowRunId?: string;
+  startedAt?: string;
+}
+
+/**
+ * Bulk outbound import tracked by batch id
+ */
+export interface OutboundBatch {
+  id: string;
+  status: 'running' | 'completed';
+  concurrency: number;
+  rows: OutboundBatchRow[];
+  workflowRunId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const batches = new JsonFileCollection<OutboundBatch>('outbound-batches');
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into records keyed by the header row
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) =>
+    r.some((value) => value.trim() !== '')
+  );
+  if (!header) return [];
+
+  // Spreadsheet exports often start with a byte order mark
+  const columns = header.map((column) =>
+    column.trim().replace(/^\uFEFF/, '')
+  );
+  return records.map((values) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, values[index]?.trim() ?? ''])
+    )
+  );
+}
+
+/**
+ * Rename mapped columns to prospect fields and drop empty values
+ *
+ * Columns without a mapping are passed through under their own name.
+ */
+function applyColumnMapping(
+  record: Record<string, unknown>,
+  mapping: ColumnMapping
+) {
+  const prospect: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(record)) {
+    if (value === '' || value === null || value === undefined) continue;
+    prospect[mapping[column] ?? column] = value;
+  }
+
+  return prospect;
+}
+
+/**
+ * Validate every row against `outboundProspectSchema`
+ *
+ * Rows repeating an email address already seen in the batch are rejected.
+ */
+export function validateBatchRows(
+  records: Record<string, unknown>[],
+  mapping: ColumnMapping = {}
+): OutboundBatchRow[] {
+  const seen = new Set<string>();
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const parsed = outboundProspectSchema.safeParse(
+      applyColumnMapping(record, mapping)
+    );
+
+    if (!parsed.success) {
+      return {
+        row,
+        status: 'rejected',
+        errors: parsed.error.issues.map(
+          (issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`
+        )
+      };
+    }
+
+    const email = parsed.data.email.toLowerCase();
+    if (seen.has(email)) {
+      return {
+        row,
+        status: 'rejected',
+        errors: [`email: ${email} appears earlier in the batch`]
+      };
+    }
+    seen.add(email);
+
+    return { row, status: 'queued', prospect: parsed.data };
+  });
+}
+
+/**
+ * Store a new batch
+ */
+export async function createOutboundBatch(
+  rows: OutboundBatchRow[],
+  concurrency: number
+): Promise<OutboundBatch> {
+  const now = new Date().toISOString();
+
+  return batches.put({
+    id: randomUUID(),
+    status: rows.some((row) => row.status === 'queued')
+      ? 'running'
+      : 'completed',
+    concurrency,
+    rows,
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+/**
+ * Get a batch by id
+ */
+export async function getOutboundBatch(id: string) {
+  return batches.get(id);
+}
+
+/**
+ * Update a batch atomically
+ */
+export async function updateOutboundBatch(
+  id: string,
+  updater: (batch: OutboundBatch) => Partial<OutboundBatch>
+): Promise<OutboundBatch> {
+  const updated = await batches.update(id, (batch) => ({
+    ...batch,
+    ...updater(batch),
+    updatedAt: new Date().toISOString()
+  }));
+
+  if (!updated) {
+    throw new Error(`Outbound batch not found: ${id}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Default cap on prospects researched at once (`OUTBOUND_BATCH_CONCURRENCY`)
+ */
+export function getDefaultBatchConcurrency() {
+  return Number(process.env.OUTBOUND_BATCH_CONCURRENCY || 5);
+}
+
+/**
+ * Stored leads created by the batch's workflow runs, keyed by run id
+ */
+export async function getBatchLeads(
+  batch: OutboundBatch
+): Promise<Map<string, LeadRecord>> {
+  const runIds = new Set(
+    batch.rows.flatMap((row) =>
+      row.workflowRunId ? [row.workflowRunId] : []
+    )
+  );
+  const leads = await getLeadStore().find({ source: 'outbound' });
+
+  return new Map(
+    leads
+      .filter((lead) => lead.workflowRunId && runIds.has(lead.workflowRunId))
+      .map((lead) => [lead.workflowRunId!, lead])
+  );
+}
+
+/**
+ * Overall progress of a batch: row outcomes and the status of each lead
+ */
+export async function getBatchProgress(batch: OutboundBatch) {
+  const leads = await getBatchLeads(batch);
+
+  const rows: Record<OutboundBatchRow['status'], number> = {
+    rejected: 0,
+    queued: 0,
+    started: 0,
+    failed: 0
+  };
+  const leadStatuses: Partial<Record<LeadStatus, number>> = {};
+
+  for (const row of batch.rows) {
+    rows[row.status]++;
+
+    const lead = row.workflowRunId && leads.get(row.workflowRunId);
+    if (lead) {
+      leadStatuses[lead.status] = (leadStatuses[lead.status] ?? 0) + 1;
+    }
+  }
+
+  return {
+    total: batch.rows.length,
+    rows,
+    leadStatuses
+  };
+}
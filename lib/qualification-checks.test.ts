@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  correctQualification,
+  findQualificationViolations
+} from '@/lib/qualification-checks';
+
+describe('findQualificationViolations', () => {
+  it('accepts a consistent qualification', () => {
+    expect(
+      findQualificationViolations({
+        category: 'QUALIFIED',
+        priority: 'HIGH',
+        leadScore: 65
+      })
+    ).toEqual([]);
+  });
+
+  it('reports a score outside the category band', () => {
+    expect(
+      findQualificationViolations({
+        category: 'HOT_LEAD',
+        priority: 'URGENT',
+        leadScore: 55
+      })
+    ).toEqual(['HOT_LEAD requires a lead score of 80-100, got 55']);
+  });
+
+  it('reports a priority that does not fit the category', () => {
+    expect(
+      findQualificationViolations({
+        category: 'COLD_LEAD',
+        priority: 'URGENT',
+        leadScore: 20
+      })
+    ).toEqual(["COLD_LEAD leads can't be URGENT priority (expected LOW)"]);
+  });
+
+  it('does not check the score of categories without a band', () => {
+    expect(
+      findQualificationViolations({
+        category: 'SUPPORT',
+        priority: 'URGENT',
+        leadScore: 95
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('correctQualification', () => {
+  it('leaves a consistent qualification unchanged', () => {
+    const qualification = {
+      category: 'WARM_LEAD' as const,
+      priority: 'MEDIUM' as const,
+      leadScore: 45,
+      reason: 'Interested'
+    };
+
+    expect(correctQualification(qualification)).toEqual({
+      qualification,
+      corrections: []
+    });
+  });
+
+  it('clamps the score into the category band', () => {
+    expect(
+      correctQualification({
+        category: 'HOT_LEAD',
+        priority: 'HIGH',
+        leadScore: 62
+      })
+    ).toEqual({
+      qualification: { category: 'HOT_LEAD', priority: 'HIGH', leadScore: 80 },
+      corrections: ['leadScore 62 → 80']
+    });
+  });
+
+  it('moves the priority to the closest one that fits the category', () => {
+    expect(
+      correctQualification({
+        category: 'FOLLOW_UP',
+        priority: 'URGENT',
+        leadScore: 35
+      })
+    ).toEqual({
+      qualification: {
+        category: 'FOLLOW_UP',
+        priority: 'MEDIUM',
+        leadScore: 35
+      },
+      corrections: ['priority URGENT → MEDIUM']
+    });
+  });
+
+  it('keeps the category and extra fields', () => {
+    const { qualification } = correctQualification({
+      category: 'UNQUALIFIED',
+      priority: 'HIGH',
+      leadScore: 40,
+      reason: 'Student project'
+    });
+
+    expect(qualification).toEqual({
+      category: 'UNQUALIFIED',
+      priority: 'LOW',
+      leadScore: 14,
+      reason: 'Student project'
+    });
+  });
+});
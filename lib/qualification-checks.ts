@@ -0,0 +1,109 @@
+import {
+  LeadPriority,
+  leadPrioritySchema,
+  QualificationCategory,
+  QualificationSchema
+} from '@/lib/types';
+
+/**
+ * Score band of each category, as given in the `qualify()` prompt
+ *
+ * SUPPORT and PARTNER leads aren't scored on the sales scale and have no band.
+ */
+export const categoryScoreBands: Partial<
+  Record<QualificationCategory, [number, number]>
+> = {
+  HOT_LEAD: [80, 100],
+  QUALIFIED: [60, 79],
+  WARM_LEAD: [40, 59],
+  FOLLOW_UP: [30, 39],
+  COLD_LEAD: [15, 29],
+  UNQUALIFIED: [0, 14]
+};
+
+/**
+ * Priorities that fit each category, following the `qualify()` prompt
+ */
+export const categoryPriorities: Record<QualificationCategory, LeadPriority[]> =
+  {
+    HOT_LEAD: ['URGENT', 'HIGH'],
+    QUALIFIED: ['URGENT', 'HIGH', 'MEDIUM'],
+    WARM_LEAD: ['HIGH', 'MEDIUM', 'LOW'],
+    FOLLOW_UP: ['MEDIUM', 'LOW'],
+    COLD_LEAD: ['LOW'],
+    UNQUALIFIED: ['LOW'],
+    SUPPORT: ['URGENT', 'HIGH', 'MEDIUM', 'LOW'],
+    PARTNER: ['URGENT', 'HIGH', 'MEDIUM', 'LOW']
+  };
+
+type QualificationVerdict = Pick<
+  QualificationSchema,
+  'category' | 'priority' | 'leadScore'
+>;
+
+/**
+ * Contradictions between a qualification's category, score and priority
+ */
+export function findQualificationViolations({
+  category,
+  priority,
+  leadScore
+}: QualificationVerdict): string[] {
+  const violations: string[] = [];
+
+  const band = categoryScoreBands[category];
+  if (band && (leadScore < band[0] || leadScore > band[1])) {
+    violations.push(
+      `${category} requires a lead score of ${band[0]}-${band[1]}, got ${leadScore}`
+    );
+  }
+
+  const priorities = categoryPriorities[category];
+  if (!priorities.includes(priority)) {
+    violations.push(
+      `${category} leads can't be ${priority} priority (expected ${priorities.join(', ')})`
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Make a qualification consistent without asking the model again
+ *
+ * The category is kept, as the model's main judgment: the score is clamped
+ * into the category's band and the priority moved to the closest one that
+ * fits the category. Returns the fixed qualification and a description of
+ * each change.
+ */
+export function correctQualification<T extends QualificationVerdict>(
+  qualification: T
+): { qualification: T; corrections: string[] } {
+  const { category, priority, leadScore } = qualification;
+  const corrections: string[] = [];
+  let corrected = qualification;
+
+  const band = categoryScoreBands[category];
+  if (band) {
+    const clamped = Math.min(band[1], Math.max(band[0], leadScore));
+    if (clamped !== leadScore) {
+      corrected = { ...corrected, leadScore: clamped };
+      corrections.push(`leadScore ${leadScore} → ${clamped}`);
+    }
+  }
+
+  const priorities = categoryPriorities[category];
+  if (!priorities.includes(priority)) {
+    const order = leadPrioritySchema.options;
+    const closest = priorities.reduce((best, candidate) =>
+      Math.abs(order.indexOf(candidate) - order.indexOf(priority)) <
+      Math.abs(order.indexOf(best) - order.indexOf(priority))
+        ? candidate
+        : best
+    );
+    corrected = { ...corrected, priority: closest };
+    corrections.push(`priority ${priority} → ${closest}`);
+  }
+
+  return { qualification: corrected, corrections };
+}
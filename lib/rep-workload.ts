@@ -0,0 +1,76 @@
+import { JsonFileCollection } from '@/lib/file-store';
+import { LeadRecord } from '@/lib/lead-store';
+import { LeadStatus } from '@/lib/types';
+
+/**
+ * Leads a rep is currently working
+ *
+ * Lead ids are stored rather than a bare number so recording the same
+ * assignment twice (e.g. on a step retry) doesn't inflate the count.
+ */
+export interface RepWorkload {
+  id: string;
+  leadIds: string[];
+  updatedAt: string;
+}
+
+/**
+ * Statuses that take a lead off its rep's workload
+ */
+export const workloadReleaseStatuses: LeadStatus[] = [
+  'REJECTED',
+  'REVIEW_EXPIRED',
+  'DISQUALIFIED',
+  'UNSUBSCRIBED',
+  'BOUNCED',
+  'CLOSED',
+  'COMPLETED'
+];
+
+const workloads = new JsonFileCollection<RepWorkload>('rep-workloads');
+
+/**
+ * Bring the workload counters in line with a lead's assignment and status
+ *
+ * The lead counts against its `assignedRepId` while it is open, and is
+ * removed from every other rep (after a reassignment, or once it is closed
+ * or disqualified).
+ */
+export async function syncRepWorkload(lead: LeadRecord) {
+  const repId =
+    lead.assignedRepId && !workloadReleaseStatuses.includes(lead.status)
+      ? lead.assignedRepId
+      : undefined;
+  const updatedAt = new Date().toISOString();
+
+  for (const workload of await workloads.list()) {
+    if (workload.id !== repId && workload.leadIds.includes(lead.id)) {
+      await workloads.update(workload.id, (current) => ({
+        ...current,
+        leadIds: current.leadIds.filter((id) => id !== lead.id),
+        updatedAt
+      }));
+    }
+  }
+
+  if (!repId) return;
+
+  const updated = await workloads.update(repId, (current) =>
+    current.leadIds.includes(lead.id)
+      ? current
+      : { ...current, leadIds: [...current.leadIds, lead.id], updatedAt }
+  );
+  if (!updated) {
+    await workloads.put({ id: repId, leadIds: [lead.id], updatedAt });
+  }
+}
+
+/**
+ * Number of open leads per rep id
+ */
+export async function getRepWorkloads(): Promise<Record<string, number>> {
+  const all = await workloads.list();
+  return Object.fromEntries(
+    all.map((workload) => [workload.id, workload.leadIds.length])
+  );
+}
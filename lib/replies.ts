@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto';
+import { simpleParser } from 'mailparser';
+import { getLeadStore, LeadRecord, LeadReply } from '@/lib/lead-store';
+
+/**
+ * Inbound email normalized from a raw message or provider webhook
+ */
+export interface InboundEmail {
+  from: string;
+  subject: string;
+  text: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  receivedAt: string;
+  bounce?: {
+    recipient?: string;
+  };
+}
+
+// Header lookups are case-insensitive across providers
+function pickHeader(headers: Record<string, string>, name: string) {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  return key ? headers[key] : undefined;
+}
+
+function parseMessageIds(value?: string | string[]) {
+  const raw = Array.isArray(value) ? value.join(' ') : (value ?? '');
+  return raw.match(/<[^<>\s]+>/g) ?? [];
+}
+
+function parseAddress(value: string) {
+  const match = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+const bounceSender = /^(mailer-daemon|postmaster)@/i;
+const bounceSubject =
+  /undeliver|delivery status notification|mail delivery (failed|subsystem)|returned mail|failure notice/i;
+const deliveryReport = /multipart\/report;[^]*?report-type="?delivery-status/i;
+
+/**
+ * Mark delivery failure notifications (DSNs) and find the address that bounced
+ *
+ * A message counts as a bounce when it is a `multipart/report` DSN, or comes
+ * from a mailer daemon with a failure subject; a person replying with
+ * "Undeliverable" in the subject doesn't. DSNs quote the original message's
+ * headers, so their Message-IDs are added to `references` for thread
+ * matching.
+ */
+function withBounceDetection(email: InboundEmail, source: string): InboundEmail {
+  const isBounce =
+    deliveryReport.test(source) ||
+    (bounceSender.test(email.from) && bounceSubject.test(email.subject));
+  if (!isBounce) return email;
+
+  const recipient = source.match(
+    /^(?:Final|Original)-Recipient:\s*rfc822;\s*<?([^\s<>]+@[^\s<>]+?)>?\s*$/im
+  )?.[1];
+
+  return {
+    ...email,
+    references: [
+      ...new Set([...email.references, ...parseMessageIds(source)])
+    ].filter((id) => id !== email.messageId),
+    bounce: { recipient: recipient?.toLowerCase() }
+  };
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export async function parseRawEmail(raw: string): Promise<InboundEmail> {
+  const parsed = await simpleParser(raw);
+
+  return withBounceDetection(
+    {
+      from: parsed.from?.value[0]?.address?.toLowerCase() ?? '',
+      subject: parsed.subject ?? '',
+      text: parsed.text ?? '',
+      messageId: parsed.messageId,
+      inReplyTo: parseMessageIds(parsed.inReplyTo)[0],
+      references: parseMessageIds(parsed.references),
+      receivedAt: (parsed.date ?? new Date()).toISOString()
+    },
+    raw
+  );
+}
+
+/**
+ * Parse a provider-style JSON webhook payload
+ *
+ * Accepts a raw message under `raw`/`email`, or parsed fields in the shapes
+ * used by common inbound providers (Postmark `Headers` array, Mailgun
+ * `body-plain` and `Message-Id`, SendGrid-style `headers` text).
+ */
+export async function parseInboundPayload(
+  payload: Record<string, unknown>
+): Promise<InboundEmail> {
+  const raw = payload.raw ?? payload.email ?? payload['body-mime'];
+  if (typeof raw === 'string') {
+    return parseRawEmail(raw);
+  }
+
+  const headers: Record<string, string> = {};
+  if (Array.isArray(payload.Headers)) {
+    for (const header of payload.Headers as { Name: string; Value: string }[]) {
+      headers[header.Name] = header.Value;
+    }
+  } else if (typeof payload.headers === 'string') {
+    for (const line of payload.headers.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+  } else if (payload.headers && typeof payload.headers === 'object') {
+    Object.assign(headers, payload.headers);
+  }
+
+  const field = (...names: string[]) => {
+    for (const name of names) {
+      const value = payload[name] ?? pickHeader(headers, name);
+      if (typeof value === 'string' && value) return value;
+    }
+    return undefined;
+  };
+
+  const from =
+    typeof payload.FromFull === 'object' && payload.FromFull
+      ? String((payload.FromFull as { Email?: string }).Email ?? '')
+      : (field('from', 'From', 'sender') ?? '');
+
+  const email: InboundEmail = {
+    from: parseAddress(from),
+    subject: field('subject', 'Subject') ?? '',
+    text: field('text', 'TextBody', 'body-plain', 'stripped-text') ?? '',
+    messageId: parseMessageIds(
+      field('messageId', 'MessageID', 'Message-Id')
+    )[0],
+    inReplyTo: parseMessageIds(field('inReplyTo', 'In-Reply-To'))[0],
+    references: parseMessageIds(field('references', 'References')),
+    receivedAt: new Date(field('date', 'Date') ?? Date.now()).toISOString()
+  };
+
+  // The top-level content type tells DSNs apart when the raw message isn't
+  // included
+  return withBounceDetection(
+    email,
+    [field('Content-Type', 'content-type') ?? '', email.text].join('\n')
+  );
+}
+
+/**
+ * Drop quoted history and the signature from a reply body
+ */
+export function stripQuotedText(text: string) {
+  const lines = text.split(/\r?\n/);
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/i.test(line)) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line)) break;
+    if (/^From:\s/i.test(line) && kept.length > 0) break;
+    if (/^--\s*$/.test(line)) break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+/**
+ * Find the lead an inbound email is replying to
+ *
+ * Thread headers (`In-Reply-To`, `References`) are matched against the
+ * Message-IDs of emails we sent; the sender address (or the bounced
+ * recipient) is the fallback.
+ */
+export async function findLeadForReply(
+  email: InboundEmail
+): Promise<LeadRecord | null> {
+  const store = getLeadStore();
+  const messageIds = [
+    ...(email.inReplyTo ? [email.inReplyTo] : []),
+    ...[...email.references].reverse()
+  ];
+
+  for (const sentMessageId of messageIds) {
+    const [lead] = await store.find({ sentMessageId });
+    if (lead) return lead;
+  }
+
+  const address = email.bounce ? email.bounce.recipient : email.from;
+  if (!address) return null;
+
+  const [lead] = await store.find({ email: address });
+  return lead ?? null;
+}
+
+/**
+ * Store an inbound email on the lead it replies to
+ */
+export async function recordLeadReply(
+  lead: LeadRecord,
+  email: InboundEmail
+): Promise<LeadReply> {
+  const reply: LeadReply = {
+    id: randomUUID(),
+    from: email.from,
+    subject: email.subject,
+    text: stripQuotedText(email.text) || email.text,
+    messageId: email.messageId,
+    receivedAt: email.receivedAt
+  };
+
+  await getLeadStore().update(lead.id, (current) => ({
+    replies: [...(current.replies ?? []), reply]
+  }));
+
+  return reply;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceCredits,
+  computeFairness,
+  pickNextInRotation,
+  RotationCandidate,
+  RoutingAssignment
+} from '@/lib/round-robin';
+
+const assignedTo = (...repIds: string[]): RoutingAssignment[] =>
+  repIds.map((repId, index) => ({
+    id: `lead-${index}`,
+    repId,
+    assignedAt: '2026-10-19T10:00:00.000Z'
+  }));
+
+/**
+ * Pick from a rotation `count` times, advancing it after each pick
+ */
+function rotate(candidates: RotationCandidate[], count: number) {
+  let credits: Record<string, number> = {};
+  const picks: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const repId = pickNextInRotation(candidates, credits)!;
+    picks.push(repId);
+    credits = advanceCredits(credits, candidates, repId);
+  }
+
+  return picks;
+}
+
+describe('pickNextInRotation', () => {
+  it('returns null without candidates', () => {
+    expect(pickNextInRotation([])).toBeNull();
+  });
+
+  it('gives ties to the rep listed first', () => {
+    expect(
+      pickNextInRotation([
+        { id: 'sdr-1', weight: 1 },
+        { id: 'sdr-2', weight: 1 }
+      ])
+    ).toBe('sdr-1');
+  });
+
+  it('alternates between equally weighted reps', () => {
+    expect(
+      rotate(
+        [
+          { id: 'sdr-1', weight: 1 },
+          { id: 'sdr-2', weight: 1 }
+        ],
+        4
+      )
+    ).toEqual(['sdr-1', 'sdr-2', 'sdr-1', 'sdr-2']);
+  });
+
+  it('interleaves leads in proportion to the weights', () => {
+    expect(
+      rotate(
+        [
+          { id: 'sdr-1', weight: 2 },
+          { id: 'sdr-2', weight: 1 }
+        ],
+        6
+      )
+    ).toEqual(['sdr-1', 'sdr-2', 'sdr-1', 'sdr-1', 'sdr-2', 'sdr-1']);
+  });
+});
+
+describe('advanceCredits', () => {
+  it('keeps the credit of reps outside the candidate list', () => {
+    expect(
+      advanceCredits(
+        { 'sdr-3': 5 },
+        [
+          { id: 'sdr-1', weight: 1 },
+          { id: 'sdr-2', weight: 1 }
+        ],
+        'sdr-1'
+      )
+    ).toEqual({ 'sdr-1': -1, 'sdr-2': 1, 'sdr-3': 5 });
+  });
+});
+
+describe('computeFairness', () => {
+  const reps = [
+    { id: 'sdr-1', weight: 1 },
+    { id: 'sdr-2', weight: 1 }
+  ];
+
+  it('scores an even split as perfectly fair', () => {
+    const fairness = computeFairness(
+      reps,
+      assignedTo('sdr-1', 'sdr-2', 'sdr-1', 'sdr-2')
+    );
+
+    expect(fairness.totalLeads).toBe(4);
+    expect(fairness.fairnessIndex).toBe(1);
+    expect(fairness.maxDeviation).toBe(0);
+  });
+
+  it('scores one rep getting everything as 1/n', () => {
+    const fairness = computeFairness(reps, assignedTo('sdr-1', 'sdr-1'));
+
+    expect(fairness.fairnessIndex).toBe(0.5);
+    expect(fairness.maxDeviation).toBe(0.5);
+    expect(fairness.reps).toEqual([
+      {
+        repId: 'sdr-1',
+        weight: 1,
+        leads: 2,
+        share: 1,
+        expectedShare: 0.5,
+        deviation: 0.5
+      },
+      {
+        repId: 'sdr-2',
+        weight: 1,
+        leads: 0,
+        share: 0,
+        expectedShare: 0.5,
+        deviation: -0.5
+      }
+    ]);
+  });
+
+  it('measures shares against the weights', () => {
+    const fairness = computeFairness(
+      [
+        { id: 'sdr-1', weight: 2 },
+        { id: 'sdr-2', weight: 1 }
+      ],
+      assignedTo('sdr-1', 'sdr-2', 'sdr-1')
+    );
+
+    expect(fairness.fairnessIndex).toBe(1);
+    expect(fairness.maxDeviation).toBe(0);
+  });
+
+  it('ignores assignments to reps outside the group', () => {
+    expect(
+      computeFairness(reps, assignedTo('sdr-1', 'ae-1', 'sdr-2')).totalLeads
+    ).toBe(2);
+  });
+
+  it('has no index before any lead was assigned', () => {
+    const fairness = computeFairness(reps, []);
+
+    expect(fairness.totalLeads).toBe(0);
+    expect(fairness.fairnessIndex).toBeNull();
+    expect(fairness.maxDeviation).toBe(0);
+  });
+});
@@ -0,0 +1,249 @@
+import { JsonFileCollection } from '@/lib/file-store';
+
+/**
+ * A rep taking part in a rotation and their share of it
+ */
+export interface RotationCandidate {
+  id: string;
+  weight: number;
+}
+
+/**
+ * Rotation pointer of one round-robin pool
+ *
+ * Stored as smooth weighted round-robin credits per rep: every pick adds each
+ * candidate's weight to their credit, the rep with the most credit gets the
+ * lead and pays back the total weight. Over a cycle a weight 2 rep gets twice
+ * as many leads as a weight 1 rep, interleaved rather than back to back.
+ */
+export interface RoundRobinRotation {
+  id: string;
+  credits: Record<string, number>;
+  updatedAt: string;
+}
+
+/**
+ * A pick made from a rotation, to be persisted once the lead is assigned
+ */
+export interface RotationPick {
+  pool: string;
+  candidates: RotationCandidate[];
+}
+
+/**
+ * Rotation credits per pool id
+ */
+export type Rotations = Record<string, Record<string, number>>;
+
+/**
+ * One routing assignment, kept for fairness reporting
+ */
+export interface RoutingAssignment {
+  /** The lead id; re-routing a lead replaces its assignment */
+  id: string;
+  repId: string;
+  ruleId?: string;
+  pool?: string;
+  assignedAt: string;
+}
+
+const rotations = new JsonFileCollection<RoundRobinRotation>('round-robin');
+const assignments = new JsonFileCollection<RoutingAssignment>(
+  'routing-assignments'
+);
+
+/**
+ * Credits after giving a lead to `repId`
+ *
+ * Reps outside the candidate list (at capacity, away, removed from the
+ * group) keep their credit until they are back.
+ */
+export function advanceCredits(
+  credits: Record<string, number>,
+  candidates: RotationCandidate[],
+  repId: string
+) {
+  const total = candidates.reduce((sum, rep) => sum + rep.weight, 0);
+  const next = { ...credits };
+
+  for (const rep of candidates) {
+    next[rep.id] = (next[rep.id] ?? 0) + rep.weight;
+  }
+  next[repId] = (next[repId] ?? 0) - total;
+
+  return next;
+}
+
+/**
+ * The rep whose turn it is in a rotation
+ *
+ * Ties go to the rep listed first.
+ */
+export function pickNextInRotation(
+  candidates: RotationCandidate[],
+  credits: Record<string, number> = {}
+): string | null {
+  let next: { id: string; credit: number } | null = null;
+
+  for (const rep of candidates) {
+    const credit = (credits[rep.id] ?? 0) + rep.weight;
+    if (!next || credit > next.credit) next = { id: rep.id, credit };
+  }
+
+  return next?.id ?? null;
+}
+
+/**
+ * Current rotation credits of every pool
+ */
+export async function getRotations(): Promise<Rotations> {
+  const all = await rotations.list();
+  return Object.fromEntries(
+    all.map((rotation) => [rotation.id, rotation.credits])
+  );
+}
+
+/**
+ * Move a pool's rotation pointer past the rep who got the lead
+ */
+export async function advanceRotation(
+  pool: string,
+  candidates: RotationCandidate[],
+  repId: string
+) {
+  const updatedAt = new Date().toISOString();
+
+  const updated = await rotations.update(pool, (rotation) => ({
+    ...rotation,
+    credits: advanceCredits(rotation.credits, candidates, repId),
+    updatedAt
+  }));
+  if (!updated) {
+    await rotations.put({
+      id: pool,
+      credits: advanceCredits({}, candidates, repId),
+      updatedAt
+    });
+  }
+}
+
+/**
+ * Record a routing assignment, advancing the pool's rotation if it came from
+ * one
+ *
+ * Recording the same assignment again (e.g. on a step retry) is a no-op, so
+ * the rotation only moves once per lead.
+ */
+export async function recordAssignment(
+  assignment: Omit<RoutingAssignment, 'assignedAt'>,
+  rotation?: RotationPick
+) {
+  const existing = await assignments.get(assignment.id);
+  if (
+    existing?.repId === assignment.repId &&
+    existing.pool === assignment.pool
+  ) {
+    return existing;
+  }
+
+  if (rotation) {
+    await advanceRotation(rotation.pool, rotation.candidates, assignment.repId);
+  }
+
+  return assignments.put({
+    ...assignment,
+    assignedAt: new Date().toISOString()
+  });
+}
+
+/**
+ * Move a lead's recorded assignment to the rep it was reassigned to
+ *
+ * The original rule, pool and time are kept so fairness reports credit the
+ * new rep in the same period; the rotation isn't moved again.
+ */
+export async function recordReassignment(leadId: string, repId: string) {
+  const updated = await assignments.update(leadId, (assignment) => ({
+    ...assignment,
+    repId
+  }));
+
+  return (
+    updated ??
+    assignments.put({
+      id: leadId,
+      repId,
+      assignedAt: new Date().toISOString()
+    })
+  );
+}
+
+/**
+ * Assignments made in a period, optionally limited to one pool
+ */
+export async function listAssignments(filter: {
+  since?: Date;
+  until?: Date;
+  pool?: string;
+}): Promise<RoutingAssignment[]> {
+  const all = await assignments.list();
+
+  return all.filter((assignment) => {
+    const assignedAt = new Date(assignment.assignedAt);
+    return (
+      (!filter.since || assignedAt >= filter.since) &&
+      (!filter.until || assignedAt < filter.until) &&
+      (!filter.pool || assignment.pool === filter.pool)
+    );
+  });
+}
+
+/**
+ * How evenly a set of reps received leads, relative to their weights
+ *
+ * `fairnessIndex` is Jain's index over leads per unit of weight: 1 when every
+ * rep got exactly their share, down to 1/n when one rep got everything.
+ */
+export function computeFairness(
+  reps: RotationCandidate[],
+  assigned: RoutingAssignment[]
+) {
+  const counts = new Map(reps.map((rep) => [rep.id, 0]));
+  for (const assignment of assigned) {
+    if (counts.has(assignment.repId)) {
+      counts.set(assignment.repId, counts.get(assignment.repId)! + 1);
+    }
+  }
+
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  const totalWeight = reps.reduce((sum, rep) => sum + rep.weight, 0);
+
+  const perRep = reps.map((rep) => {
+    const leads = counts.get(rep.id)!;
+    const share = total > 0 ? leads / total : 0;
+    const expectedShare = totalWeight > 0 ? rep.weight / totalWeight : 0;
+
+    return {
+      repId: rep.id,
+      weight: rep.weight,
+      leads,
+      share,
+      expectedShare,
+      deviation: total > 0 ? share - expectedShare : 0
+    };
+  });
+
+  const normalized = perRep.map((rep) => rep.leads / rep.weight);
+  const sum = normalized.reduce((acc, value) => acc + value, 0);
+  const sumOfSquares = normalized.reduce((acc, value) => acc + value ** 2, 0);
+
+  return {
+    totalLeads: total,
+    fairnessIndex:
+      sumOfSquares > 0
+        ? (sum * sum) / (normalized.length * sumOfSquares)
+        : null,
+    maxDeviation: Math.max(0, ...perRep.map((rep) => Math.abs(rep.deviation))),
+    reps: perRep
+  };
+}
@@ -0,0 +1,312 @@
+import path from 'path';
+import { z } from 'zod';
+import { JsonConfigFile, JsonFileCollection } from '@/lib/file-store';
+import {
+  companySizeSchema,
+  industrySchema,
+  leadPrioritySchema,
+  LeadSource,
+  leadSourceSchema,
+  qualificationCategorySchema,
+  QualificationSchema,
+  salesRoleSchema
+} from '@/lib/types';
+import {
+  describeLeadRegion,
+  LeadRegion,
+  parseTerritory,
+  territoryMatchLevel
+} from '@/lib/territories';
+
+/**
+ * Conditions a lead must meet for a rule to apply; all given conditions must
+ * match, and a rule without conditions always applies
+ */
+export const routingRuleConditionsSchema = z
+  .object({
+    category: z.array(qualificationCategorySchema).optional(),
+    priority: z.array(leadPrioritySchema).optional(),
+    minScore: z.number().min(0).max(100).optional(),
+    maxScore: z.number().min(0).max(100).optional(),
+    industry: z.array(industrySchema).optional(),
+    companySize: z.array(companySizeSchema).optional(),
+    // Same format as rep territories: regions, countries or US states
+    territory: z
+      .array(
+        z.string().refine((value) => !!parseTerritory(value), {
+          message: 'Unknown territory'
+        })
+      )
+      .optional(),
+    source: z.array(leadSourceSchema).optional()
+  })
+  .refine(
+    (when) =>
+      when.minScore === undefined ||
+      when.maxScore === undefined ||
+      when.minScore <= when.maxScore,
+    { message: 'minScore must not be greater than maxScore' }
+  );
+
+/**
+ * What to do with a lead matching a rule
+ *
+ * - `assign`: a specific rep
+ * - `pool`: the best fit among reps with the given roles or ids (territory and
+ *   industry matches first, then least busy or in rotation)
+ * - `round_robin`: weighted rotation through a named group of reps
+ * - `queue`: leave unassigned in a named queue
+ */
+export const routingActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('assign'), repId: z.string() }),
+  z.object({
+    type: z.literal('pool'),
+    roles: z.array(salesRoleSchema).optional(),
+    repIds: z.array(z.string()).optional(),
+    requireIndustryMatch: z.boolean().optional(),
+    // Only reps whose territory covers the lead's location
+    requireTerritoryMatch: z.boolean().optional(),
+    // How to pick among the best-fit reps (default least_busy)
+    distribution: z.enum(['least_busy', 'round_robin']).optional()
+  }),
+  z.object({
+    type: z.literal('round_robin'),
+    group: z.string(),
+    repIds: z.array(z.string()).min(1)
+  }),
+  z.object({ type: z.literal('queue'), queue: z.string() })
+]);
+
+export const routingRuleSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  enabled: z.boolean().optional(),
+  when: routingRuleConditionsSchema.default({}),
+  then: routingActionSchema
+});
+
+/**
+ * Ordered rule set: the first matching rule with an eligible rep wins
+ */
+export const routingRulesSchema = z
+  .array(routingRuleSchema)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+    { message: 'Routing rule ids must be unique' }
+  );
+
+export type RoutingRule = z.infer<typeof routingRuleSchema>;
+export type RoutingAction = z.infer<typeof routingActionSchema>;
+
+/**
+ * Lead details routing rules can match on, besides the qualification
+ */
+export interface RoutingContext {
+  region?: LeadRegion | null;
+  source?: LeadSource;
+}
+
+/**
+ * Default rules, following the original hard-coded routing cascade
+ *
+ * Not equivalent to it: the cascade ran in full over the reps covering the
+ * lead's territory before the rest of the team, while these rules put role
+ * ahead of territory (a hot lead goes to an enterprise AE in another
+ * territory before a local SDR). Pools still prefer reps in the lead's
+ * territory.
+ */
+export const defaultRoutingRules: RoutingRule[] = [
+  {
+    id: 'hot-lead',
+    description: 'Hot leads go to an enterprise AE',
+    when: { category: ['HOT_LEAD'] },
+    then: { type: 'pool', roles: ['ENTERPRISE_AE'] }
+  },
+  {
+    id: 'urgent',
+    description: 'Urgent leads go to an enterprise AE',
+    when: { priority: ['URGENT'] },
+    then: { type: 'pool', roles: ['ENTERPRISE_AE'] }
+  },
+  {
+    id: 'enterprise-account',
+    description: 'Enterprise accounts go to an enterprise AE',
+    when: { companySize: ['ENTERPRISE'] },
+    then: { type: 'pool', roles: ['ENTERPRISE_AE'] }
+  },
+  {
+    id: 'territory',
+    description: "Reps covering the lead's territory",
+    when: {},
+    then: { type: 'pool', requireTerritoryMatch: true }
+  },
+  {
+    id: 'industry-expert',
+    description: "Reps with expertise in the lead's industry",
+    when: {},
+    then: { type: 'pool', requireIndustryMatch: true }
+  },
+  {
+    id: 'best-capacity',
+    description: 'Best available capacity',
+    when: {},
+    then: { type: 'pool' }
+  }
+];
+
+/**
+ * The first condition a lead fails, described for the routing trace, or null
+ * when the rule applies
+ */
+export function findRuleMismatch(
+  rule: RoutingRule,
+  qualification: QualificationSchema,
+  context: RoutingContext
+): string | null {
+  const { when } = rule;
+
+  if (when.category && !when.category.includes(qualification.category)) {
+    return `category is ${qualification.category}`;
+  }
+  if (when.priority && !when.priority.includes(qualification.priority)) {
+    return `priority is ${qualification.priority}`;
+  }
+  if (when.minScore !== undefined && qualification.leadScore < when.minScore) {
+    return `score ${qualification.leadScore} is below ${when.minScore}`;
+  }
+  if (when.maxScore !== undefined && qualification.leadScore > when.maxScore) {
+    return `score ${qualification.leadScore} is above ${when.maxScore}`;
+  }
+  if (
+    when.industry &&
+    (!qualification.industry || !when.industry.includes(qualification.industry))
+  ) {
+    return `industry is ${qualification.industry ?? 'unknown'}`;
+  }
+  if (
+    when.companySize &&
+    (!qualification.companySize ||
+      !when.companySize.includes(qualification.companySize))
+  ) {
+    return `company size is ${qualification.companySize ?? 'unknown'}`;
+  }
+  if (when.territory) {
+    const region = context.region;
+    if (!region) return 'lead location is unknown';
+    if (
+      !when.territory.some(
+        (territory) => territoryMatchLevel(territory, region) > 0
+      )
+    ) {
+      return `lead is in ${describeLeadRegion(region)}`;
+    }
+  }
+  if (
+    when.source &&
+    (!context.source || !when.source.includes(context.source))
+  ) {
+    return `source is ${context.source ?? 'unknown'}`;
+  }
+
+  return null;
+}
+
+/**
+ * Raised when the routing rules can't be changed through the API
+ */
+export class RoutingRulesConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingRulesConfigError';
+  }
+}
+
+const storedRules = new JsonFileCollection<{
+  id: string;
+  rules: RoutingRule[];
+  updatedAt: string;
+}>('routing-rules');
+
+const STORED_RULES_ID = 'active';
+
+const rulesFile = new JsonConfigFile(
+  'routing rules',
+  routingRulesSchema,
+  (json) => (Array.isArray(json) ? json : (json as { rules?: unknown })?.rules)
+);
+
+/**
+ * Path of the JSON file rules are loaded from (`ROUTING_RULES_FILE`), if any
+ *
+ * File-managed rules are read-only through the API.
+ */
+export function getRoutingRulesFile() {
+  return process.env.ROUTING_RULES_FILE
+    ? path.resolve(process.env.ROUTING_RULES_FILE)
+    : null;
+}
+
+/**
+ * Active routing rules
+ *
+ * Read from `ROUTING_RULES_FILE` when set, otherwise from the persistent
+ * store, falling back to `defaultRoutingRules`. Read on every call, so
+ * changes apply without a restart.
+ */
+export async function getRoutingRules(): Promise<RoutingRule[]> {
+  const filePath = getRoutingRulesFile();
+  if (filePath) return rulesFile.load(filePath);
+
+  const stored = await storedRules.get(STORED_RULES_ID);
+  return stored?.rules ?? defaultRoutingRules;
+}
+
+function assertRulesEditable() {
+  if (getRoutingRulesFile()) {
+    throw new RoutingRulesConfigError(
+      'Routing rules are managed by ROUTING_RULES_FILE; edit the file instead'
+    );
+  }
+}
+
+/**
+ * Replace the stored rule set
+ */
+export async function saveRoutingRules(rules: RoutingRule[]) {
+  assertRulesEditable();
+
+  await storedRules.put({
+    id: STORED_RULES_ID,
+    rules,
+    updatedAt: new Date().toISOString()
+  });
+  return rules;
+}
+
+/**
+ * Drop the stored rule set and go back to `defaultRoutingRules`
+ */
+export async function resetRoutingRules() {
+  assertRulesEditable();
+
+  await storedRules.delete(STORED_RULES_ID);
+  return defaultRoutingRules;
+}
+
+/**
+ * Rep ids referenced by rules that aren't on the team
+ */
+export function findUnknownRuleReps(
+  rules: RoutingRule[],
+  teamIds: string[]
+): string[] {
+  const referenced = rules.flatMap((rule) =>
+    rule.then.type === 'assign'
+      ? [rule.then.repId]
+      : rule.then.type === 'queue'
+        ? []
+        : (rule.then.repIds ?? [])
+  );
+
+  return [...new Set(referenced)].filter((id) => !teamIds.includes(id));
+}
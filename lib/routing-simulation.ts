@@ -0,0 +1,183 @@
+import {
+  CandidateRanking,
+  LeadRouter,
+  RoutingRecommendation,
+  SalesTeamMember
+} from '@/lib/lead-routing';
+import { getLeadStore, InboundLeadRecord } from '@/lib/lead-store';
+import { workloadReleaseStatuses } from '@/lib/rep-workload';
+import { advanceCredits } from '@/lib/round-robin';
+import { RoutingContext, RoutingRule } from '@/lib/routing-rules';
+import { getRoutingState } from '@/lib/sales-team';
+import { inferLeadRegion } from '@/lib/territories';
+import { QualificationSchema } from '@/lib/types';
+
+/**
+ * Alternative configuration to route with instead of the live one
+ */
+export interface RoutingOverrides {
+  team?: SalesTeamMember[];
+  rules?: RoutingRule[];
+}
+
+/**
+ * Routing outcome for one lead with every rep's standing
+ */
+export interface RoutingSimulation {
+  recommendation: RoutingRecommendation;
+  candidates: CandidateRanking[];
+}
+
+/**
+ * Routing context of a stored inbound lead
+ */
+export function getLeadRoutingContext(lead: InboundLeadRecord): RoutingContext {
+  return {
+    region: inferLeadRegion(lead.input, lead.enrichment),
+    source: 'inbound'
+  };
+}
+
+/**
+ * Route a lead without assigning it
+ *
+ * Uses live workloads and rotations, with the team and rules replaced by any
+ * overrides. Nothing is persisted.
+ */
+export async function simulateRouting(
+  qualification: QualificationSchema,
+  context: RoutingContext,
+  overrides: RoutingOverrides = {}
+): Promise<RoutingSimulation> {
+  const { team, rules, rotations } = await getRoutingState(overrides);
+  const router = new LeadRouter(team, rules, rotations);
+
+  const recommendation = router.getRoutingRecommendation(
+    qualification,
+    context
+  );
+  return {
+    recommendation,
+    candidates: router.rankCandidates(qualification, context, recommendation)
+  };
+}
+
+/**
+ * Replayed lead: who has it now and who the simulated routing picks
+ */
+export interface ReplayedLead {
+  leadId: string;
+  email: string;
+  company?: string;
+  currentRepId: string | null;
+  simulatedRepId: string | null;
+  changed: boolean;
+  reason: string;
+}
+
+/**
+ * Re-route past inbound leads to preview the impact of a routing change
+ *
+ * Leads are replayed oldest first from today's workloads (less the replayed
+ * leads still open) and rotations, and each simulated assignment counts
+ * towards the next one, so capacity limits and round-robin turns play out as
+ * they would for the batch.
+ */
+export async function replayLeads(
+  filter: { since?: string; until?: string; limit: number },
+  overrides: RoutingOverrides = {}
+) {
+  const state = await getRoutingState(overrides);
+  const leads = (
+    await getLeadStore().find({ source: 'inbound', createdAfter: filter.since })
+  )
+    .filter(
+      (lead): lead is InboundLeadRecord =>
+        lead.source === 'inbound' &&
+        !!lead.qualification &&
+        (!filter.until || lead.createdAt < filter.until)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(-filter.limit);
+
+  // Today's workloads already count the replayed leads that are still open;
+  // take them out so they aren't counted twice
+  const openAssignments: Record<string, number> = {};
+  for (const lead of leads) {
+    if (lead.assignedRepId && !workloadReleaseStatuses.includes(lead.status)) {
+      openAssignments[lead.assignedRepId] =
+        (openAssignments[lead.assignedRepId] ?? 0) + 1;
+    }
+  }
+
+  let team = state.team.map((member) =>
+    openAssignments[member.id]
+      ? {
+          ...member,
+          currentLeadCount: Math.max(
+            0,
+            (member.currentLeadCount || 0) - openAssignments[member.id]
+          )
+        }
+      : member
+  );
+  let rotations = state.rotations;
+  const replayed: ReplayedLead[] = [];
+
+  for (const lead of leads) {
+    const router = new LeadRouter(team, state.rules, rotations);
+    const { assignedTo, rotation, reason } = router.getRoutingRecommendation(
+      lead.qualification!,
+      getLeadRoutingContext(lead)
+    );
+
+    if (assignedTo) {
+      team = team.map((member) =>
+        member.id === assignedTo.id
+          ? { ...member, currentLeadCount: (member.currentLeadCount || 0) + 1 }
+          : member
+      );
+    }
+    if (assignedTo && rotation) {
+      rotations = {
+        ...rotations,
+        [rotation.pool]: advanceCredits(
+          rotations[rotation.pool] ?? {},
+          rotation.candidates,
+          assignedTo.id
+        )
+      };
+    }
+
+    const currentRepId = lead.assignedRepId ?? null;
+    const simulatedRepId = assignedTo?.id ?? null;
+    replayed.push({
+      leadId: lead.id,
+      email: lead.input.email,
+      company: lead.input.company,
+      currentRepId,
+      simulatedRepId,
+      changed: currentRepId !== simulatedRepId,
+      reason
+    });
+  }
+
+  const byRep: Record<string, { current: number; simulated: number }> = {};
+  for (const lead of replayed) {
+    for (const [repId, key] of [
+      [lead.currentRepId, 'current'],
+      [lead.simulatedRepId, 'simulated']
+    ] as const) {
+      const id = repId ?? 'unassigned';
+      byRep[id] ??= { current: 0, simulated: 0 };
+      byRep[id][key]++;
+    }
+  }
+
+  return {
+    total: replayed.length,
+    changed: replayed.filter((lead) => lead.changed).length,
+    byRep,
+    leads: replayed
+  };
+}
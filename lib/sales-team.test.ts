@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSalesTeam, SalesTeamConfigError } from '@/lib/sales-team';
+
+describe('getSalesTeam with SALES_TEAM_FILE', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sales-team-'));
+  });
+
+  afterEach(async () => {
+    delete process.env.SALES_TEAM_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads a YAML team', async () => {
+    const filePath = path.join(dir, 'team.yaml');
+    await fs.writeFile(
+      filePath,
+      [
+        'members:',
+        '  - id: sdr-9',
+        '    name: Alex Kim',
+        '    email: alex.kim@company.com',
+        '    role: SDR',
+        '    territories: [EMEA]',
+        '  - id: sdr-10',
+        '    name: Sam Ortiz',
+        '    email: sam.ortiz@company.com',
+        '    role: SDR',
+        '    active: false'
+      ].join('\n')
+    );
+    process.env.SALES_TEAM_FILE = filePath;
+
+    expect(await getSalesTeam()).toEqual([
+      {
+        id: 'sdr-9',
+        name: 'Alex Kim',
+        email: 'alex.kim@company.com',
+        role: 'SDR',
+        territories: ['EMEA']
+      }
+    ]);
+  });
+
+  it('validates a YAML team against the schema', async () => {
+    const filePath = path.join(dir, 'team.yml');
+    await fs.writeFile(filePath, '- id: sdr-9\n  name: Alex Kim\n');
+    process.env.SALES_TEAM_FILE = filePath;
+
+    await expect(getSalesTeam()).rejects.toThrow(SalesTeamConfigError);
+  });
+
+  it('reports a missing file as a config error', async () => {
+    process.env.SALES_TEAM_FILE = path.join(dir, 'missing.json');
+
+    await expect(getSalesTeam()).rejects.toThrow(SalesTeamConfigError);
+  });
+});
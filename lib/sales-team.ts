@@ -0,0 +1,189 @@
+import path from 'path';
+import { z } from 'zod';
+import { JsonConfigFile, JsonFileCollection } from '@/lib/file-store';
+import {
+  defaultSalesTeam,
+  LeadRouter,
+  SalesTeamMember,
+  salesTeamMemberSchema
+} from '@/lib/lead-routing';
+import { getRepWorkloads } from '@/lib/rep-workload';
+import { getRotations } from '@/lib/round-robin';
+import { getRoutingRules, RoutingRule } from '@/lib/routing-rules';
+
+/**
+ * Raised when the sales team configuration is invalid or can't be changed
+ */
+export class SalesTeamConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SalesTeamConfigError';
+  }
+}
+
+/**
+ * A whole sales team: members with unique ids
+ */
+export const salesTeamSchema = z
+  .array(salesTeamMemberSchema)
+  .refine(
+    (team) => new Set(team.map((member) => member.id)).size === team.length,
+    { message: 'Sales team member ids must be unique' }
+  );
+
+const members = new JsonFileCollection<SalesTeamMember>('sales-team');
+
+const teamFile = new JsonConfigFile('sales team', salesTeamSchema, (json) =>
+  Array.isArray(json) ? json : (json as { members?: unknown })?.members
+);
+
+/**
+ * Path of the JSON or YAML file the team is loaded from (`SALES_TEAM_FILE`),
+ * if any
+ *
+ * A file-managed team is read-only through the API.
+ */
+export function getSalesTeamFile() {
+  return process.env.SALES_TEAM_FILE
+    ? path.resolve(process.env.SALES_TEAM_FILE)
+    : null;
+}
+
+async function loadTeamFile(filePath: string) {
+  try {
+    return await teamFile.load(filePath);
+  } catch (error) {
+    throw new SalesTeamConfigError(
+      `SALES_TEAM_FILE could not be loaded: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Current sales team
+ *
+ * Read from `SALES_TEAM_FILE` when set, otherwise from the persistent store
+ * (which starts out as `defaultSalesTeam`). Read on every call, so changes
+ * apply without a restart. Inactive reps are left out unless requested.
+ * Throws a `SalesTeamConfigError` if the file is missing or has never been
+ * valid.
+ */
+export async function getSalesTeam(
+  options: { includeInactive?: boolean } = {}
+): Promise<SalesTeamMember[]> {
+  const filePath = getSalesTeamFile();
+  const stored = filePath ? [] : await members.list();
+  const team = filePath
+    ? await loadTeamFile(filePath)
+    : stored.length > 0
+      ? stored
+      : defaultSalesTeam;
+
+  return options.includeInactive
+    ? team
+    : team.filter((member) => member.active !== false);
+}
+
+/**
+ * Get a team member by id, including inactive ones
+ */
+export async function getSalesTeamMember(id: string) {
+  const team = await getSalesTeam({ includeInactive: true });
+  return team.find((member) => member.id === id) ?? null;
+}
+
+/**
+ * Copy the default team into the store before its first change
+ */
+async function ensureStoreSeeded() {
+  if (getSalesTeamFile()) {
+    throw new SalesTeamConfigError(
+      'The sales team is managed by SALES_TEAM_FILE; edit the file instead'
+    );
+  }
+
+  if ((await members.list()).length === 0) {
+    for (const member of defaultSalesTeam) {
+      await members.put(member);
+    }
+  }
+}
+
+/**
+ * Add a rep to the stored team
+ */
+export async function addSalesTeamMember(
+  member: SalesTeamMember
+): Promise<SalesTeamMember> {
+  await ensureStoreSeeded();
+
+  if (await members.get(member.id)) {
+    throw new SalesTeamConfigError(
+      `Sales team member already exists: ${member.id}`
+    );
+  }
+
+  return members.put(member);
+}
+
+/**
+ * Edit a stored rep
+ */
+export async function updateSalesTeamMember(
+  id: string,
+  patch: Partial<Omit<SalesTeamMember, 'id'>>
+): Promise<SalesTeamMember | null> {
+  await ensureStoreSeeded();
+
+  return members.update(id, (current) =>
+    salesTeamMemberSchema.parse({ ...current, ...patch, id })
+  );
+}
+
+/**
+ * Stop routing leads to a rep, keeping them for history and reporting
+ */
+export async function deactivateSalesTeamMember(id: string) {
+  return updateSalesTeamMember(id, { active: false });
+}
+
+/**
+ * Everything the lead router needs, as currently configured
+ *
+ * `currentLeadCount` is filled from the persisted rep workloads. A `team` or
+ * `rules` override replaces the configured one, e.g. to preview a change.
+ */
+export async function getRoutingState(
+  overrides: { team?: SalesTeamMember[]; rules?: RoutingRule[] } = {}
+) {
+  const [team, workloads, rules, rotations] = await Promise.all([
+    overrides.team ?? getSalesTeam(),
+    getRepWorkloads(),
+    overrides.rules ?? getRoutingRules(),
+    getRotations()
+  ]);
+
+  return {
+    team: team
+      .filter((member) => member.active !== false)
+      .map((member) => ({
+        ...member,
+        currentLeadCount: workloads[member.id] ?? 0
+      })),
+    rules,
+    rotations
+  };
+}
+
+/**
+ * Lead router over the current sales team with live workload counts
+ *
+ * Routing balances load as leads are assigned and closed, and round-robin
+ * pools pick up where their persisted rotation left off.
+ */
+export async function getLeadRouter(
+  overrides: { team?: SalesTeamMember[]; rules?: RoutingRule[] } = {}
+): Promise<LeadRouter> {
+  const { team, rules, rotations } = await getRoutingState(overrides);
+  return new LeadRouter(team, rules, rotations);
+}
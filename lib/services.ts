@@ -11,11 +11,60 @@ import {
   qualificationSchema,
   leadEnrichmentSchema,
   LeadEnrichmentSchema,
-  EmailTemplateType
+  LeadScoring,
+  QualificationConsistency,
+  EmailTemplateType,
+  FollowUpEmail,
+  followUpEmailSchema,
+  LeadStatus,
+  RejectionReason,
+  ReplyClassification,
+  replyClassificationSchema
 } from '@/lib/types';
-import { sendSlackMessageWithButtons } from '@/lib/slack';
+import {
+  postSlackMessage,
+  ReassignOptions,
+  sendSlackDirectMessage,
+  sendSlackMessageWithButtons
+} from '@/lib/slack';
 import { z } from 'zod';
 import { exa } from '@/lib/exa';
+import {
+  EmailSendResult,
+  OutgoingEmail,
+  formatEmailDraft,
+  getEmailTransport,
+  parseEmailDraft
+} from '@/lib/email';
+import {
+  getLeadStore,
+  InboundLeadRecord,
+  isLeadSnoozed,
+  LeadRecord,
+  LeadReply,
+  ScheduledFollowUp,
+  sequenceStopStatuses
+} from '@/lib/lead-store';
+import {
+  addSuppression,
+  assertNotSuppressed,
+  findSuppression,
+  getUnsubscribeHeaders,
+  getUnsubscribeUrl,
+  SuppressedRecipientError,
+  SuppressionEntry
+} from '@/lib/suppression';
+import { inferLeadRegion } from '@/lib/territories';
+import { classifyEmailDomain, getCompanyDomain } from '@/lib/email-domains';
+import { getScoringModel, scoreLead } from '@/lib/lead-scoring';
+import {
+  correctQualification,
+  findQualificationViolations
+} from '@/lib/qualification-checks';
+import { syncRepWorkload } from '@/lib/rep-workload';
+import { recordAssignment, recordReassignment } from '@/lib/round-robin';
+import { checkSlaRunning, LeadSla } from '@/lib/sla';
+import type { RoutingRecommendation } from '@/lib/lead-routing';
 
 /**
  * ------------------------------------------------------------
@@ -23,6 +72,30 @@ import { exa } from '@/lib/exa';
  * ------------------------------------------------------------
  */
 
+/**
+ * Email address with a note when it is a personal one, for prompts and Slack
+ */
+export function describeLeadEmail(lead: FormSchema) {
+  return classifyEmailDomain(lead.email) === 'corporate'
+    ? lead.email
+    : `${lead.email} (personal address from a free mail provider)`;
+}
+
+/**
+ * Company of a lead for research and qualification prompts
+ *
+ * Without a company name, the email domain is only suggested for looking the
+ * company up when it is a corporate one.
+ */
+export function describeLeadCompany(lead: FormSchema) {
+  if (lead.company) return lead.company;
+
+  const domain = getCompanyDomain(lead.email);
+  return domain
+    ? `Not provided (look it up from the email domain ${domain})`
+    : 'Not provided (personal email address, its domain says nothing about the company)';
+}
+
 /**
  * Enrich lead data with company and contact information
  */
@@ -36,6 +109,8 @@ export async function enrichLead(
     prompt: `Based on the following lead data and research, extract and structure company information:
     
 LEAD DATA: ${JSON.stringify(lead)}
+EMAIL: ${describeLeadEmail(lead)}
+COMPANY: ${describeLeadCompany(lead)}
 RESEARCH: ${research}
 
 Extract all available company information including size, industry, tech stack, funding, social profiles, recent news, and competitors. If information is not available, omit those fields.`
@@ -52,19 +127,32 @@ Extract all available company information including size, industry, tech stack,
 
 /**
  * Advanced lead qualification with scoring and categorization
+ *
+ * An answer whose category, score and priority contradict the guidelines
+ * (see `lib/qualification-checks.ts`) is asked for again with the
+ * violations; anything still inconsistent is corrected deterministically and
+ * recorded in `consistency`.
+ *
+ * The LLM's score is then blended with the rules-based score from
+ * `lib/lead-scoring.ts`; both and the breakdown are kept in `scoring`. A
+ * blended score outside the category's band is kept, so it matches the
+ * weights, and recorded as a violation in `consistency` for the reviewer.
  */
 export async function qualify(
   lead: FormSchema,
   research: string,
   enrichment: LeadEnrichmentSchema
 ): Promise<QualificationSchema> {
-  const { object } = await generateObject({
-    model: 'openai/gpt-5',
-    schema: qualificationSchema,
-    prompt: `You are an expert sales qualification analyst. Analyze this lead comprehensively and provide detailed qualification.
+  const schema = qualificationSchema.omit({
+    scoring: true,
+    consistency: true
+  });
+  const prompt = `You are an expert sales qualification analyst. Analyze this lead comprehensively and provide detailed qualification.
 
 LEAD DATA: ${JSON.stringify(lead)}
 
+EMAIL: ${describeLeadEmail(lead)}
+
 RESEARCH: ${research}
 
 ENRICHMENT DATA: ${JSON.stringify(enrichment)}
@@ -89,7 +177,7 @@ Consider:
 1. Company size and industry fit
 2. Budget indicators from company info (funding, revenue)
 3. Message urgency and clarity
-4. Decision-making authority signals
+4. Decision-making authority signals (a personal email address is a weaker signal than a work one)
 5. Technical sophistication
 6. Competition and market timing
 
@@ -100,22 +188,144 @@ Provide:
 - Industry and company size
 - Estimated deal value
 - 3-5 specific next steps
-- Suggested assignment (if applicable)`
+- Suggested assignment (if applicable)`;
+
+  let { object } = await generateObject({
+    model: 'openai/gpt-5',
+    schema,
+    prompt
+  });
+
+  let consistency: QualificationConsistency | undefined;
+  const violations = findQualificationViolations(object);
+  if (violations.length > 0) {
+    console.warn(
+      `⚠️  Inconsistent qualification (${violations.join('; ')}) - asking again`
+    );
+    const original = {
+      category: object.category,
+      priority: object.priority,
+      leadScore: object.leadScore
+    };
+
+    ({ object } = await generateObject({
+      model: 'openai/gpt-5',
+      schema,
+      prompt: `${prompt}
+
+Your previous answer contradicted the guidelines:
+${violations.map((violation) => `- ${violation}`).join('\n')}
+
+PREVIOUS ANSWER: ${JSON.stringify(object)}
+
+Re-assess the lead so that its category, lead score and priority agree with the guidelines.`
+    }));
+
+    const corrected = correctQualification(object);
+    if (corrected.corrections.length > 0) {
+      console.warn(
+        `⚠️  Still inconsistent after asking again, corrected: ${corrected.corrections.join(', ')}`
+      );
+    }
+    object = corrected.qualification;
+    consistency = {
+      violations,
+      original,
+      reprompted: true,
+      corrections: corrected.corrections
+    };
+  }
+
+  const { leadScore, scoring } = scoreLead(
+    lead,
+    enrichment,
+    object,
+    await getScoringModel()
+  );
+
+  // The rules can pull the blended score out of the category's band. It is
+  // kept as weighted, and flagged for the reviewer instead
+  const blendedViolations = findQualificationViolations({
+    ...object,
+    leadScore
   });
+  if (blendedViolations.length > 0) {
+    console.warn(
+      `⚠️  Blended score contradicts ${object.category}, flagged for review: ${blendedViolations.join('; ')}`
+    );
+    consistency = {
+      violations: [
+        ...(consistency?.violations ?? []),
+        ...blendedViolations.map((violation) => `Blended score: ${violation}`)
+      ],
+      original: consistency?.original ?? {
+        category: object.category,
+        priority: object.priority,
+        leadScore: object.leadScore
+      },
+      reprompted: consistency?.reprompted ?? false,
+      corrections: consistency?.corrections ?? []
+    };
+  }
+
+  return { ...object, leadScore, scoring, consistency };
+}
+
+/**
+ * Route a qualified lead to a sales rep using live workloads
+ *
+ * Stores the qualification with the routing recommendation in `assignedTo`,
+ * records the rep on the lead, updates the rep workload counters and moves
+ * the round-robin rotation on when the rep was picked from one.
+ */
+export async function assignLead(
+  leadId: string,
+  lead: FormSchema,
+  enrichment: LeadEnrichmentSchema,
+  qualification: QualificationSchema
+): Promise<QualificationSchema> {
+  let assignedTo = qualification.assignedTo;
+  let assignedRepId: string | undefined;
+  let routing: RoutingRecommendation | undefined;
 
-  // Integrate lead routing
   try {
-    const { leadRouter } = await import('./lead-routing');
-    const routing = leadRouter.getRoutingRecommendation(object);
+    const { getLeadRouter } = await import('./sales-team');
+    const router = await getLeadRouter();
+    routing = router.getRoutingRecommendation(qualification, {
+      region: inferLeadRegion(lead, enrichment),
+      source: 'inbound'
+    });
 
     if (routing.assignedTo) {
-      object.assignedTo = `${routing.assignedTo.name} (${routing.assignedTo.email}) - ${routing.reason}`;
+      assignedTo = `${routing.assignedTo.name} (${routing.assignedTo.email}) - ${routing.reason}`;
+      assignedRepId = routing.assignedTo.id;
+    } else if (routing.queue || routing.fallback === 'UNASSIGNED') {
+      assignedTo = routing.reason;
     }
   } catch (error) {
     console.warn('Lead routing not available:', error);
   }
 
-  return object;
+  const assigned = { ...qualification, assignedTo };
+  const updated = await getLeadStore().update(leadId, {
+    qualification: assigned,
+    assignedRepId
+  });
+  await syncRepWorkload(updated);
+
+  if (routing && assignedRepId) {
+    await recordAssignment(
+      {
+        id: leadId,
+        repId: assignedRepId,
+        ruleId: routing.ruleId,
+        pool: routing.rotation?.pool
+      },
+      routing.rotation
+    );
+  }
+
+  return assigned;
 }
 
 /**
@@ -147,6 +357,15 @@ function getEmailTemplateType(
   }
 }
 
+/**
+ * Reviewer feedback used to regenerate a rejected draft
+ */
+export interface ReviewerFeedback {
+  reason?: RejectionReason;
+  guidance?: string;
+  previousEmail: string;
+}
+
 /**
  * Generate personalized outreach email with advanced templating
  */
@@ -154,7 +373,8 @@ export async function writeEmail(
   lead: FormSchema,
   research: string,
   qualification: QualificationSchema,
-  enrichment: LeadEnrichmentSchema
+  enrichment: LeadEnrichmentSchema,
+  feedback?: ReviewerFeedback
 ) {
   const templateType = getEmailTemplateType(qualification);
 
@@ -197,7 +417,19 @@ GENERAL REQUIREMENTS:
 8. Keep it concise (150-250 words max)
 9. No generic templates - every sentence should be personalized
 10. Sign with appropriate urgency based on priority level
-
+${
+  feedback
+    ? `
+REVIEWER FEEDBACK:
+A sales reviewer rejected the previous draft. Rewrite it to fully address their feedback.
+- Rejection reason: ${feedback.reason || 'Not specified'}
+- Guidance: ${feedback.guidance || 'None provided'}
+
+PREVIOUS DRAFT:
+${feedback.previousEmail}
+`
+    : ''
+}
 OUTPUT FORMAT:
 Subject: [compelling subject line]
 
@@ -282,17 +514,11 @@ export async function generateFollowUpSequence(
   qualification: QualificationSchema,
   enrichment: LeadEnrichmentSchema,
   previousEmails: string[]
-): Promise<string[]> {
+): Promise<FollowUpEmail[]> {
   const { object } = await generateObject({
     model: 'openai/gpt-5',
     schema: z.object({
-      emails: z.array(
-        z.object({
-          dayOffset: z.number().describe('Days after previous email'),
-          subject: z.string(),
-          body: z.string()
-        })
-      )
+      emails: z.array(followUpEmailSchema)
     }),
     prompt: `Generate a 3-email follow-up sequence for this lead:
 
@@ -314,12 +540,7 @@ Each email should:
 - Be shorter than the previous email`
   });
 
-  return object.emails.map(
-    (email) => `[Day +${email.dayOffset}]
-Subject: ${email.subject}
-
-${email.body}`
-  );
+  return object.emails;
 }
 
 /**
@@ -336,7 +557,8 @@ export async function humanFeedback(
   research: string,
   email: string,
   qualification: QualificationSchema,
-  enrichment: LeadEnrichmentSchema
+  enrichment: LeadEnrichmentSchema,
+  leadId?: string
 ) {
   const priorityEmoji =
     qualification.priority === 'URGENT'
@@ -362,19 +584,23 @@ export async function humanFeedback(
                 ? '💬'
                 : '❄️';
 
+  // Left by a blended score outside the category's band
+  const scoreWarnings = findQualificationViolations(qualification);
+
   const message = `${categoryEmoji} *New Lead: ${lead.name}* ${priorityEmoji}
 
 *📊 QUALIFICATION SUMMARY*
 • Category: *${qualification.category}*
 • Priority: *${qualification.priority}*
-• Lead Score: *${qualification.leadScore}/100*
+• Lead Score: *${qualification.leadScore}/100*${qualification.scoring ? ` (rules ${qualification.scoring.ruleScore} · AI ${qualification.scoring.llmScore})` : ''}${scoreWarnings.length > 0 ? `\n• ⚠️ Check the category: ${scoreWarnings.join('; ')}` : ''}
 • Estimated Value: ${qualification.estimatedDealValue || 'TBD'}
 
 *👤 LEAD DETAILS*
 • Name: ${lead.name}
-• Email: ${lead.email}
+• Email: ${describeLeadEmail(lead)}
 • Company: ${enrichment.companyName || lead.company || 'Unknown'}
 • Phone: ${lead.phone || 'Not provided'}
+• Location: ${lead.location || enrichment.headquarters || 'Unknown'}
 
 *🏢 COMPANY PROFILE*
 • Industry: ${qualification.industry || enrichment.industry || 'Unknown'}
@@ -388,7 +614,7 @@ ${lead.message.slice(0, 300)}${lead.message.length > 300 ? '...' : ''}
 
 *🎯 QUALIFICATION REASON*
 ${qualification.reason}
-
+${qualification.scoring ? `\n${formatScoreBreakdown(qualification.scoring)}\n` : ''}
 *📋 NEXT STEPS*
 ${qualification.nextSteps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
 
@@ -402,16 +628,658 @@ _See email preview above this message_
 
   const slackChannel = process.env.SLACK_CHANNEL_ID || '';
 
-  return await sendSlackMessageWithButtons(slackChannel, message);
+  return await sendSlackMessageWithButtons(
+    slackChannel,
+    message,
+    leadId,
+    undefined,
+    leadId ? await getReassignOptions(leadId, qualification) : undefined
+  );
+}
+
+/**
+ * Rules-based score factors for the Slack review message
+ */
+function formatScoreBreakdown(scoring: LeadScoring) {
+  const { ruleScore, llmScore, weights, factors } = scoring;
+  const total = weights.rules + weights.llm;
+  const percent = (weight: number) => Math.round((weight / total) * 100);
+
+  return [
+    `*🧮 SCORE BREAKDOWN* (${percent(weights.rules)}% rules ${ruleScore} · ${percent(weights.llm)}% AI ${llmScore})`,
+    ...factors.map(
+      (factor) =>
+        `• ${factor.points > 0 ? '+' : ''}${factor.points} ${factor.factor}: ${factor.detail}`
+    )
+  ].join('\n');
+}
+
+/**
+ * Reps a reviewer can reassign a lead to from Slack
+ *
+ * Lists the reps eligible for the lead, plus whoever has it now.
+ */
+async function getReassignOptions(
+  leadId: string,
+  qualification: QualificationSchema
+): Promise<ReassignOptions | undefined> {
+  try {
+    const { getLeadRouter, getSalesTeamMember } = await import('./sales-team');
+    const lead = await getLeadStore().get(leadId);
+    const [router, current] = await Promise.all([
+      getLeadRouter(),
+      lead?.assignedRepId ? getSalesTeamMember(lead.assignedRepId) : null
+    ]);
+
+    const reps = router.getEligibleReps(qualification);
+    if (current && !reps.some((rep) => rep.id === current.id)) {
+      reps.unshift(current);
+    }
+
+    return { reps, currentRepId: current?.id };
+  } catch (error) {
+    console.warn('Could not list reps for reassignment:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Compact lead brief for the rep's Slack DM
+ */
+function formatRepBrief(lead: InboundLeadRecord, heading: string) {
+  const { input, qualification, enrichment } = lead;
+
+  return [
+    `${heading}: *${input.name}*${input.company ? ` (${input.company})` : ''}`,
+    qualification
+      ? `• ${qualification.category} · ${qualification.priority} · ${qualification.leadScore}/100`
+      : '',
+    `• ${input.email}${input.phone ? ` · ${input.phone}` : ''}`,
+    input.location || enrichment?.headquarters
+      ? `• ${input.location || enrichment?.headquarters}`
+      : '',
+    `> ${input.message.slice(0, 200)}${input.message.length > 200 ? '...' : ''}`,
+    qualification?.nextSteps[0]
+      ? `*Next step:* ${qualification.nextSteps[0]}`
+      : '',
+    lead.slack ? `Review thread in <#${lead.slack.channel}>` : ''
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * DM the rep a lead is assigned to with a compact brief
+ *
+ * Skipped when the rep hasn't changed from `previousRepId` (e.g. after a
+ * re-qualification) or their email isn't in the Slack workspace. Returns
+ * whether a DM was sent.
+ */
+export async function notifyAssignedRep(
+  leadId: string,
+  previousRepId?: string,
+  heading = '🎯 New lead assigned to you'
+) {
+  const lead = await getLeadStore().get(leadId);
+  if (
+    lead?.source !== 'inbound' ||
+    !lead.assignedRepId ||
+    lead.assignedRepId === previousRepId
+  ) {
+    return false;
+  }
+
+  const { getSalesTeamMember } = await import('./sales-team');
+  const rep = await getSalesTeamMember(lead.assignedRepId);
+  if (!rep) return false;
+
+  const sent = await sendSlackDirectMessage(
+    rep.email,
+    formatRepBrief(lead, heading)
+  );
+  if (!sent) {
+    console.warn(`⚠️  ${rep.email} is not in Slack, no DM sent for ${leadId}`);
+  }
+  return sent;
+}
+
+/**
+ * Hand a lead to another rep by hand (e.g. from the Slack "Reassign" select)
+ *
+ * Updates the stored assignment, the workload counts of both reps and the
+ * routing assignment used for fairness reporting.
+ * Returns the previous rep id, or null when the lead already had this rep.
+ */
+export async function reassignLead(
+  lead: LeadRecord,
+  repId: string,
+  reassignedBy: string
+): Promise<{ lead: LeadRecord; previousRepId?: string } | null> {
+  if (lead.assignedRepId === repId) return null;
+
+  const { getSalesTeamMember } = await import('./sales-team');
+  const rep = await getSalesTeamMember(repId);
+  if (!rep || rep.active === false) {
+    throw new Error(`Sales rep ${repId} not found or inactive`);
+  }
+
+  const updated = await getLeadStore().update(lead.id, {
+    assignedRepId: rep.id,
+    ...(lead.source === 'inbound' && lead.qualification
+      ? {
+          qualification: {
+            ...lead.qualification,
+            assignedTo: `${rep.name} (${rep.email}) - Reassigned by ${reassignedBy}`
+          }
+        }
+      : {})
+  });
+  await syncRepWorkload(updated);
+  await recordReassignment(lead.id, rep.id);
+
+  return { lead: updated, previousRepId: lead.assignedRepId };
+}
+
+/**
+ * DM the assigned rep that a lead's SLA is about to run out
+ *
+ * Sent once, and skipped once the lead had a human response or was closed.
+ * Returns whether a DM was sent.
+ */
+export async function warnSlaAtRisk(leadId: string) {
+  const lead = await getLeadStore().get(leadId);
+  if (
+    !lead?.sla ||
+    lead.sla.firstAction ||
+    lead.sla.warnedAt ||
+    !(await checkSlaRunning(lead))
+  ) {
+    return false;
+  }
+
+  const due = Math.floor(Date.parse(lead.sla.dueAt) / 1000);
+  const sent = await notifyAssignedRep(
+    leadId,
+    undefined,
+    `⏰ ${lead.sla.priority} lead waiting on you - respond by <!date^${due}^{time}|${lead.sla.dueAt}>`
+  );
+  await getLeadStore().update(leadId, {
+    sla: { ...lead.sla, warnedAt: new Date().toISOString() }
+  });
+  return sent;
 }
 
 /**
- * Send an email
+ * Mark a lead's SLA as breached and escalate it
+ *
+ * Posts to `SLA_ESCALATION_CHANNEL_ID` when set, otherwise DMs every team
+ * lead. Skipped once the lead had a human response or was closed. Returns
+ * the updated SLA, or null when nothing was breached.
  */
-export async function sendEmail(email: string) {
+export async function escalateSlaBreach(
+  leadId: string
+): Promise<LeadSla | null> {
+  const lead = await getLeadStore().get(leadId);
+  if (!lead?.sla || lead.sla.firstAction || !(await checkSlaRunning(lead))) {
+    return null;
+  }
+
+  const { getSalesTeam, getSalesTeamMember } = await import('./sales-team');
+  const rep = lead.sla.repId
+    ? await getSalesTeamMember(lead.sla.repId)
+    : undefined;
+  const text = `🚨 SLA breached: ${lead.sla.priority} lead *${lead.input.name}*${lead.input.company ? ` (${lead.input.company})` : ''} had no response within the window (due ${lead.sla.dueAt}). Assigned to ${rep ? `${rep.name} (${rep.email})` : 'nobody'}.${lead.slack ? ` Review thread in <#${lead.slack.channel}>` : ''}`;
+
+  const escalatedTo: string[] = [];
+  if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_SIGNING_SECRET) {
+    const channel = process.env.SLA_ESCALATION_CHANNEL_ID;
+    if (channel) {
+      await postSlackMessage(channel, text);
+      escalatedTo.push(channel);
+    } else {
+      const teamLeads = (await getSalesTeam()).filter(
+        (member) => member.role === 'TEAM_LEAD'
+      );
+      for (const teamLead of teamLeads) {
+        if (await sendSlackDirectMessage(teamLead.email, text)) {
+          escalatedTo.push(teamLead.id);
+        }
+      }
+    }
+  }
+  if (escalatedTo.length === 0) {
+    console.warn(`⚠️  SLA breach on ${leadId} could not be escalated`);
+  }
+
+  const sla: LeadSla = {
+    ...lead.sla,
+    status: 'breached',
+    breachedAt: new Date().toISOString(),
+    escalatedTo
+  };
+  await getLeadStore().update(leadId, { sla });
+  return sla;
+}
+
+/**
+ * Send an email through the configured transport (see `lib/email.ts`)
+ *
+ * Every send path goes through here: suppressed recipients are refused with
+ * `SuppressedRecipientError`, every email carries a signed unsubscribe link and
+ * List-Unsubscribe headers, and SMTP hard bounces are added to the
+ * suppression list.
+ */
+export async function sendEmail(email: OutgoingEmail): Promise<EmailSendResult> {
+  await assertNotSuppressed(email.to);
+
+  try {
+    return await getEmailTransport().send({
+      ...email,
+      text: `${email.text}\n\n--\nUnsubscribe: ${getUnsubscribeUrl(email.to)}`,
+      headers: { ...email.headers, ...getUnsubscribeHeaders(email.to) }
+    });
+  } catch (error) {
+    const responseCode = (error as { responseCode?: number }).responseCode;
+    if (responseCode && responseCode >= 550 && responseCode <= 554) {
+      await addSuppression({
+        type: 'email',
+        value: email.to,
+        reason: 'bounce',
+        source: 'smtp'
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stop a lead's outreach if its address or domain is on the suppression list
+ *
+ * Returns the matching entry, or null when the lead may be emailed.
+ */
+export async function enforceSuppression(
+  lead: LeadRecord
+): Promise<SuppressionEntry | null> {
+  const entry = await findSuppression(lead.input.email);
+  if (!entry) return null;
+
+  if (!sequenceStopStatuses.includes(lead.status)) {
+    await stopLeadSequence(
+      lead,
+      entry.reason === 'bounce' ? 'BOUNCED' : 'UNSUBSCRIBED'
+    );
+  }
+  return entry;
+}
+
+/**
+ * Add an address to the suppression list and stop outreach to every lead
+ * using it
+ */
+export async function suppressAddress(
+  email: string,
+  reason: SuppressionEntry['reason'],
+  source: string
+): Promise<SuppressionEntry> {
+  const entry = await addSuppression({
+    type: 'email',
+    value: email,
+    reason,
+    source
+  });
+
+  const leads = await getLeadStore().find({ email });
+  for (const lead of leads) {
+    await enforceSuppression(lead);
+  }
+
+  return entry;
+}
+
+/**
+ * How long a `SENDING` claim holds before a crashed send may be retried
+ */
+const SEND_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Send the stored draft for an approved lead and record the result on the lead
+ *
+ * The lead is re-read and moved to `SENDING` atomically first; a lead that is
+ * already `SENT`, or `SENDING` for less than `SEND_CLAIM_TIMEOUT_MS`, is
+ * refused. An older claim is left by a send that crashed, and is taken over.
+ */
+export async function sendApprovedLeadEmail(
+  lead: LeadRecord
+): Promise<EmailSendResult> {
+  const store = getLeadStore();
+
+  // Claim the lead before sending, so a concurrent or retried call (e.g. the
+  // workflow step and an inline Slack approval) can't send it twice
+  let claimedFrom: LeadStatus = lead.status;
+  let draft: { subject: string; body: string } | undefined;
+  const claimed = await store.update(lead.id, (current) => {
+    if (current.status === 'SENT') {
+      throw new Error(`Email for lead ${lead.id} was already sent`);
+    }
+    if (current.status === 'SENDING') {
+      const claimedAt = current.sendClaim?.claimedAt ?? current.updatedAt;
+      if (Date.now() - Date.parse(claimedAt) < SEND_CLAIM_TIMEOUT_MS) {
+        throw new Error(`Email for lead ${lead.id} is already being sent`);
+      }
+      console.warn(
+        `⚠️  Taking over the send for lead ${lead.id}, claimed at ${claimedAt}`
+      );
+    }
+    if (!current.email) {
+      throw new Error(`Lead ${lead.id} has no email draft`);
+    }
+    draft = parseEmailDraft(current.email);
+    claimedFrom =
+      current.status === 'SENDING'
+        ? (current.sendClaim?.claimedFrom ?? 'APPROVED')
+        : current.status;
+    return {
+      status: 'SENDING',
+      sendClaim: { claimedAt: new Date().toISOString(), claimedFrom }
+    };
+  });
+
+  // Marks the lead UNSUBSCRIBED or BOUNCED, which releases the claim
+  const suppression = await enforceSuppression(claimed);
+  if (suppression) {
+    throw new SuppressedRecipientError(claimed.input.email, suppression);
+  }
+
+  const { subject, body } = draft!;
+  const to = claimed.input.email;
+
+  try {
+    const result = await sendEmail({ to, subject, text: body });
+
+    await store.update(lead.id, (current) => ({
+      status: 'SENT',
+      sendClaim: undefined,
+      sentEmails: [
+        ...(current.sentEmails ?? []),
+        { to, subject, status: 'sent', ...result }
+      ]
+    }));
+
+    return result;
+  } catch (error) {
+    // Release the claim so the send can be retried
+    await store.update(lead.id, (current) => ({
+      status: current.status === 'SENDING' ? claimedFrom : current.status,
+      sendClaim: undefined,
+      sentEmails: [
+        ...(current.sentEmails ?? []),
+        {
+          to,
+          subject,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          sentAt: new Date().toISOString()
+        }
+      ]
+    }));
+    throw error;
+  }
+}
+
+/**
+ * Send one email of an inbound lead's follow-up sequence
+ *
+ * Follow-ups are threaded under the initial email. Returns the follow-up's
+ * resulting status; `cancelled` means the sequence has been stopped and
+ * `snoozed` that it should be retried once `snoozedUntil` has passed.
+ */
+export async function sendFollowUpEmail(
+  lead: LeadRecord,
+  index: number
+): Promise<ScheduledFollowUp['status'] | 'snoozed'> {
+  if (lead.source !== 'inbound' || !lead.followUpSequence?.[index]) {
+    return 'cancelled';
+  }
+
+  const store = getLeadStore();
+  const followUp = lead.followUpSequence[index];
+  if (followUp.status !== 'pending') return followUp.status;
+
+  if (sequenceStopStatuses.includes(lead.status)) {
+    await stopLeadSequence(lead, lead.status);
+    return 'cancelled';
+  }
+
+  if (await enforceSuppression(lead)) return 'cancelled';
+  if (isLeadSnoozed(lead)) return 'snoozed';
+
+  const to = lead.input.email;
+  const initial = lead.sentEmails?.find((sent) => sent.status === 'sent');
+
+  try {
+    const result = await sendEmail({
+      to,
+      subject: followUp.subject,
+      text: followUp.body,
+      inReplyTo: initial?.messageId,
+      references: initial?.messageId ? [initial.messageId] : undefined
+    });
+
+    await store.update(lead.id, (current) => ({
+      followUpSequence:
+        current.source === 'inbound'
+          ? current.followUpSequence?.map((scheduled, i) =>
+              i === index
+                ? {
+                    ...scheduled,
+                    status: 'sent' as const,
+                    sentAt: result.sentAt
+                  }
+                : scheduled
+            )
+          : undefined,
+      sentEmails: [
+        ...(current.sentEmails ?? []),
+        { to, subject: followUp.subject, status: 'sent', ...result }
+      ]
+    }));
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await store.update(lead.id, (current) => ({
+      followUpSequence:
+        current.source === 'inbound'
+          ? current.followUpSequence?.map((scheduled, i) =>
+              i === index
+                ? { ...scheduled, status: 'failed' as const, error: message }
+                : scheduled
+            )
+          : undefined,
+      sentEmails: [
+        ...(current.sentEmails ?? []),
+        {
+          to,
+          subject: followUp.subject,
+          status: 'failed',
+          error: message,
+          sentAt: new Date().toISOString()
+        }
+      ]
+    }));
+    return 'failed';
+  }
+}
+
+/**
+ * Mark a lead as replied, booked, unsubscribed or closed and cancel its
+ * pending follow-ups or touchpoints. Running sequences check the lead before
+ * every send.
+ */
+export async function stopLeadSequence(
+  lead: LeadRecord,
+  status: LeadStatus
+): Promise<LeadRecord> {
+  if (!sequenceStopStatuses.includes(status)) {
+    throw new Error(`${status} does not stop follow-up sequences`);
+  }
+
+  const updated =
+    lead.source === 'outbound'
+      ? await getLeadStore().update(lead.id, {
+          status,
+          touchPoints: lead.touchPoints?.map((touchPoint) =>
+            touchPoint.status === 'pending'
+              ? { ...touchPoint, status: 'skipped' as const }
+              : touchPoint
+          )
+        })
+      : await getLeadStore().update(lead.id, {
+          status,
+          followUpSequence: lead.followUpSequence?.map((followUp) =>
+            followUp.status === 'pending'
+              ? { ...followUp, status: 'cancelled' as const }
+              : followUp
+          )
+        });
+  await syncRepWorkload(updated);
+
+  return updated;
+}
+
+/**
+ * Store a reviewer-edited draft as the email to send
+ *
+ * The AI-written draft is kept alongside each edit for later comparison.
+ */
+export async function saveEditedLeadEmail(
+  lead: LeadRecord,
+  subject: string,
+  body: string,
+  editedBy: string
+): Promise<LeadRecord> {
+  const editedEmail = formatEmailDraft(subject, body);
+
+  return getLeadStore().update(lead.id, {
+    email: editedEmail,
+    edits: [
+      ...(lead.edits ?? []),
+      {
+        // Repeat edits still compare against the AI's draft, not the last edit
+        originalEmail: lead.edits?.[0]?.originalEmail ?? lead.email ?? '',
+        editedEmail,
+        editedBy,
+        editedAt: new Date().toISOString()
+      }
+    ]
+  });
+}
+
+/**
+ * Write the lead outcome back to the CRM
+ */
+export async function syncLeadToCrm(lead: LeadRecord) {
   /**
-   * send email using provider like sendgrid, mailgun, resend etc.
+   * Integration point for CRM systems:
+   * - Salesforce
+   * - HubSpot
+   * - Pipedrive
+   * - Custom CRM
+   *
+   * Upsert the contact with qualification, review decision and sent emails.
    */
+  console.log(
+    `CRM integration not configured. Would sync lead ${lead.id} (${lead.status})`
+  );
+}
+
+/**
+ * ------------------------------------------------------------
+ * Reply Handling
+ * ------------------------------------------------------------
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OUT_OF_OFFICE_DEFAULT_DAYS = 7;
+
+/**
+ * Classify a lead's reply to our outreach
+ */
+export async function classifyReply(
+  lead: LeadRecord,
+  reply: LeadReply
+): Promise<ReplyClassification> {
+  const { object } = await generateObject({
+    model: 'openai/gpt-5',
+    schema: replyClassificationSchema,
+    prompt: `Classify this reply to our sales outreach:
+
+LEAD: ${lead.input.name} <${lead.input.email}>
+TODAY: ${new Date().toISOString().slice(0, 10)}
+SUBJECT: ${reply.subject}
+REPLY:
+${reply.text}
+
+Categories:
+- INTERESTED: wants a call, demo, pricing or more information
+- NOT_NOW: open to it later but not at this time
+- OUT_OF_OFFICE: automatic out-of-office or leave reply
+- WRONG_PERSON: not the right contact, possibly pointing to someone else
+- UNSUBSCRIBE: asks to stop emailing or be removed
+- OBJECTION: pushback on price, fit, timing, competitor or need
+
+For OUT_OF_OFFICE include the return date if one is given. For WRONG_PERSON include who they referred us to, if anyone.`
+  });
+
+  return object;
+}
+
+/**
+ * Act on a classified reply
+ *
+ * Out-of-office replies snooze the sequence until the day after the return
+ * date; unsubscribes stop it as UNSUBSCRIBED; every other reply stops it as
+ * REPLIED so a rep can take over.
+ */
+export async function applyReplyClassification(
+  lead: LeadRecord,
+  replyId: string,
+  classification: ReplyClassification
+): Promise<LeadRecord> {
+  const store = getLeadStore();
+  const updated = await store.update(lead.id, {
+    replies: lead.replies?.map((reply) =>
+      reply.id === replyId ? { ...reply, classification } : reply
+    )
+  });
+
+  if (classification.category === 'OUT_OF_OFFICE') {
+    const returnDate = classification.returnDate
+      ? Date.parse(classification.returnDate)
+      : NaN;
+    const snoozedUntil =
+      returnDate > Date.now()
+        ? returnDate + DAY_MS
+        : Date.now() + OUT_OF_OFFICE_DEFAULT_DAYS * DAY_MS;
+
+    return store.update(lead.id, {
+      snoozedUntil: new Date(snoozedUntil).toISOString()
+    });
+  }
+
+  if (classification.category === 'UNSUBSCRIBE') {
+    await suppressAddress(lead.input.email, 'unsubscribe', 'reply');
+    return stopLeadSequence(
+      (await store.get(lead.id)) ?? updated,
+      'UNSUBSCRIBED'
+    );
+  }
+
+  // Keep a later outcome such as MEETING_BOOKED instead of downgrading it
+  return stopLeadSequence(
+    updated,
+    sequenceStopStatuses.includes(updated.status) ? updated.status : 'REPLIED'
+  );
 }
 
 /**
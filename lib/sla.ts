@@ -0,0 +1,215 @@
+import { responseWindowMs } from '@/lib/availability';
+import { getLeadStore, LeadRecord } from '@/lib/lead-store';
+import { workloadReleaseStatuses } from '@/lib/rep-workload';
+import { LeadPriority, LeadStatus } from '@/lib/types';
+
+/**
+ * Human actions that stop a lead's SLA clock
+ */
+export type SlaAction = 'APPROVED' | 'REJECTED' | 'EDITED' | 'REASSIGNED';
+
+/**
+ * Response SLA of a lead, timed from submission
+ */
+export interface LeadSla {
+  priority: LeadPriority;
+  repId?: string;
+  startedAt: string;
+  warnAt: string;
+  dueAt: string;
+  status: 'running' | 'met' | 'breached' | 'cancelled';
+  warnedAt?: string;
+  breachedAt?: string;
+  /** Team lead ids or the channel the breach was escalated to */
+  escalatedTo?: string[];
+  /** Run id of the workflow timing this SLA, once started */
+  runId?: string;
+  firstAction?: {
+    action: SlaAction;
+    by: string;
+    at: string;
+    /** Milliseconds from submission to the first human action */
+    elapsedMs: number;
+  };
+}
+
+/**
+ * Statuses that end a lead's SLA without a human response (e.g. cold leads
+ * emailed automatically, or closed leads)
+ *
+ * An expired review is a missed response, so it is left to breach.
+ */
+const slaCancelStatuses: LeadStatus[] = workloadReleaseStatuses.filter(
+  (status) => status !== 'REVIEW_EXPIRED'
+);
+
+/**
+ * Share of the response window after which the rep is warned
+ * (`SLA_WARNING_RATIO`, default 0.75)
+ */
+export function getSlaWarningRatio() {
+  const ratio = Number(process.env.SLA_WARNING_RATIO || 0.75);
+  return ratio > 0 && ratio < 1 ? ratio : 0.75;
+}
+
+/**
+ * SLA for a lead submitted at `startedAt` with the given priority
+ */
+export function createLeadSla(
+  priority: LeadPriority,
+  startedAt: string,
+  repId?: string
+): LeadSla {
+  const start = Date.parse(startedAt);
+  const windowMs = responseWindowMs[priority];
+
+  return {
+    priority,
+    repId,
+    startedAt,
+    warnAt: new Date(start + windowMs * getSlaWarningRatio()).toISOString(),
+    dueAt: new Date(start + windowMs).toISOString(),
+    status: 'running'
+  };
+}
+
+/**
+ * Start a lead's SLA clock from its submission time
+ *
+ * Needs the lead to be qualified. Returns the existing SLA when the clock is
+ * already running (e.g. on a step retry), or null when the lead has no
+ * priority yet.
+ */
+export async function startLeadSla(leadId: string): Promise<LeadSla | null> {
+  const lead = await getLeadStore().get(leadId);
+  if (lead?.source !== 'inbound' || !lead.qualification) return null;
+  if (lead.sla) return lead.sla;
+
+  const sla = createLeadSla(
+    lead.qualification.priority,
+    lead.createdAt,
+    lead.assignedRepId
+  );
+  await getLeadStore().update(leadId, { sla });
+  return sla;
+}
+
+/**
+ * Whether the SLA clock of a lead still needs watching
+ *
+ * Ends the SLA (as cancelled) when the lead was closed without a human
+ * response being needed.
+ */
+export async function checkSlaRunning(lead: LeadRecord) {
+  if (!lead.sla || lead.sla.status !== 'running') return false;
+
+  if (slaCancelStatuses.includes(lead.status)) {
+    await getLeadStore().update(lead.id, {
+      sla: { ...lead.sla, status: 'cancelled' }
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record the first human action on a lead, stopping its SLA clock
+ *
+ * Later actions are ignored. Returns the updated SLA, or null when the lead
+ * has no SLA or already had a response.
+ */
+export async function recordFirstHumanAction(
+  leadId: string,
+  action: SlaAction,
+  by: string
+): Promise<LeadSla | null> {
+  const store = getLeadStore();
+  const lead = await store.get(leadId);
+  if (!lead?.sla || lead.sla.firstAction) return null;
+
+  const now = new Date();
+  const sla: LeadSla = {
+    ...lead.sla,
+    // A late response still counts as a breach
+    status:
+      lead.sla.status === 'running' && now.toISOString() <= lead.sla.dueAt
+        ? 'met'
+        : lead.sla.status === 'running'
+          ? 'breached'
+          : lead.sla.status,
+    firstAction: {
+      action,
+      by,
+      at: now.toISOString(),
+      elapsedMs: now.getTime() - Date.parse(lead.sla.startedAt)
+    }
+  };
+
+  await store.update(leadId, { sla });
+  return sla;
+}
+
+/**
+ * SLA compliance for one group of leads
+ */
+export interface SlaCompliance {
+  total: number;
+  met: number;
+  breached: number;
+  running: number;
+  /** Met share of the leads with a final outcome, null when there are none */
+  complianceRate: number | null;
+  /** Median time to first human action, in milliseconds */
+  medianResponseMs: number | null;
+}
+
+function summarize(slas: LeadSla[]): SlaCompliance {
+  const met = slas.filter((sla) => sla.status === 'met').length;
+  const breached = slas.filter((sla) => sla.status === 'breached').length;
+  const responseTimes = slas
+    .flatMap((sla) => (sla.firstAction ? [sla.firstAction.elapsedMs] : []))
+    .sort((a, b) => a - b);
+  const middle = Math.floor(responseTimes.length / 2);
+
+  return {
+    total: slas.length,
+    met,
+    breached,
+    running: slas.filter((sla) => sla.status === 'running').length,
+    complianceRate: met + breached > 0 ? met / (met + breached) : null,
+    medianResponseMs:
+      responseTimes.length === 0
+        ? null
+        : responseTimes.length % 2
+          ? responseTimes[middle]
+          : (responseTimes[middle - 1] + responseTimes[middle]) / 2
+  };
+}
+
+function groupBy(slas: LeadSla[], key: (sla: LeadSla) => string) {
+  const groups = new Map<string, LeadSla[]>();
+  for (const sla of slas) {
+    groups.set(key(sla), [...(groups.get(key(sla)) ?? []), sla]);
+  }
+  return Object.fromEntries(
+    [...groups].map(([group, items]) => [group, summarize(items)])
+  );
+}
+
+/**
+ * SLA compliance overall, per rep and per priority
+ *
+ * Cancelled SLAs (leads closed without needing a response) are left out.
+ */
+export function getSlaReport(leads: LeadRecord[]) {
+  const slas = leads.flatMap((lead) =>
+    lead.sla && lead.sla.status !== 'cancelled' ? [lead.sla] : []
+  );
+
+  return {
+    overall: summarize(slas),
+    byRep: groupBy(slas, (sla) => sla.repId ?? 'unassigned'),
+    byPriority: groupBy(slas, (sla) => sla.priority)
+  };
+}
@@ -1,5 +1,8 @@
-import { App, LogLevel } from '@slack/bolt';
+import { App, BlockAction, LogLevel, ViewOutput, types } from '@slack/bolt';
 import { VercelReceiver } from '@vercel/slack-bolt';
+import { getLeadStore, LeadRecord } from '@/lib/lead-store';
+import { getSalesTeamMember } from '@/lib/sales-team';
+import { RejectionReason, rejectionReasonSchema } from '@/lib/types';
 
 const logLevel =
   process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO;
@@ -34,12 +37,104 @@ export const slackApp = hasSlackCredentials
     })
   : null;
 
+/**
+ * Reps offered in a lead message's "Reassign" select
+ */
+export interface ReassignOptions {
+  reps: { id: string; name: string; role: string }[];
+  currentRepId?: string;
+}
+
+// Slack limits static selects to 100 options
+const MAX_SELECT_OPTIONS = 100;
+
+/**
+ * "Reassign" select; option values carry the lead id and the rep id
+ */
+function buildReassignSelect(leadId: string, reassign: ReassignOptions) {
+  const options = reassign.reps.slice(0, MAX_SELECT_OPTIONS).map((rep) => ({
+    text: {
+      type: 'plain_text' as const,
+      text: `${rep.name} (${rep.role})`.slice(0, 75)
+    },
+    value: `${leadId}:${rep.id}`
+  }));
+  const current = options.find(
+    (option) => option.value === `${leadId}:${reassign.currentRepId}`
+  );
+
+  return {
+    type: 'static_select' as const,
+    action_id: 'lead_reassign',
+    placeholder: { type: 'plain_text' as const, text: '🔀 Reassign' },
+    options,
+    ...(current ? { initial_option: current } : {})
+  };
+}
+
+/**
+ * Read the lead and rep ids from a "Reassign" selection
+ */
+export function parseReassignAction(
+  body: BlockAction
+): { leadId: string; repId: string } | null {
+  const action = body.actions[0];
+  const value =
+    action?.type === 'static_select' ? action.selected_option?.value : null;
+  if (!value) return null;
+
+  const separator = value.indexOf(':');
+  if (separator === -1) return null;
+
+  return {
+    leadId: value.slice(0, separator),
+    repId: value.slice(separator + 1)
+  };
+}
+
+/**
+ * Revision of a lead's draft: how many times it was regenerated after a
+ * rejection
+ */
+export function getDraftRevision(lead: LeadRecord) {
+  return lead.revisions?.length ?? 0;
+}
+
+/**
+ * Lead id and draft revision carried by review buttons and modals
+ *
+ * Values without a revision (posted before revisions were tracked) count as
+ * the first draft.
+ */
+export function parseLeadActionValue(value: string) {
+  const [leadId, revision] = value.split(':');
+  return { leadId, revision: revision ? Number(revision) : 0 };
+}
+
+/**
+ * Whether a review button was posted for an older draft than the lead's
+ * current one (e.g. Approve on the original message after a revision)
+ */
+export function isStaleDraftAction(body: BlockAction, lead: LeadRecord) {
+  const action = body.actions[0];
+  if (action?.type !== 'button' || !action.value) return false;
+
+  return parseLeadActionValue(action.value).revision !== getDraftRevision(lead);
+}
+
 /**
  * Send the research and qualification to the human for approval in slack
+ *
+ * The lead id and draft revision are embedded in the button values so actions
+ * can resolve the lead and refuse clicks on outdated drafts.
  */
 export async function sendSlackMessageWithButtons(
   channel: string,
-  text: string
+  text: string,
+  leadId?: string,
+  threadTs?: string,
+  reassign?: ReassignOptions,
+  revision = 0
 ): Promise<{ messageTs: string; channel: string }> {
   if (!slackApp) {
     throw new Error(
@@ -53,6 +148,7 @@ export async function sendSlackMessageWithButtons(
   // Send message with blocks including action buttons
   const result = await slackApp.client.chat.postMessage({
     channel,
+    thread_ts: threadTs,
     text,
     blocks: [
       {
@@ -73,7 +169,8 @@ export async function sendSlackMessageWithButtons(
               emoji: true
             },
             style: 'primary',
-            action_id: 'lead_approved'
+            action_id: 'lead_approved',
+            ...(leadId ? { value: `${leadId}:${revision}` } : {})
           },
           {
             type: 'button',
@@ -83,8 +180,22 @@ export async function sendSlackMessageWithButtons(
               emoji: true
             },
             style: 'danger',
-            action_id: 'lead_rejected'
-          }
+            action_id: 'lead_rejected',
+            ...(leadId ? { value: `${leadId}:${revision}` } : {})
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '✏️ Edit',
+              emoji: true
+            },
+            action_id: 'lead_edit',
+            ...(leadId ? { value: `${leadId}:${revision}` } : {})
+          },
+          ...(leadId && reassign && reassign.reps.length > 0
+            ? [buildReassignSelect(leadId, reassign)]
+            : [])
         ]
       }
     ]
@@ -99,3 +210,267 @@ export async function sendSlackMessageWithButtons(
     channel: result.channel!
   };
 }
+
+/**
+ * Post a message to a channel
+ */
+export async function postSlackMessage(channel: string, text: string) {
+  if (!slackApp) {
+    throw new Error(
+      'Slack app is not initialized. Please set SLACK_BOT_TOKEN and SLACK_SIGNING_SECRET environment variables.'
+    );
+  }
+
+  await slackApp.client.chat.postMessage({ channel, text });
+}
+
+/**
+ * Post a reply in the thread of a lead's Slack message
+ */
+export async function postSlackThreadMessage(
+  channel: string,
+  threadTs: string,
+  text: string
+) {
+  if (!slackApp) {
+    throw new Error(
+      'Slack app is not initialized. Please set SLACK_BOT_TOKEN and SLACK_SIGNING_SECRET environment variables.'
+    );
+  }
+
+  await slackApp.client.chat.postMessage({
+    channel,
+    thread_ts: threadTs,
+    text
+  });
+}
+
+/**
+ * Slack user id of a workspace member, or null if the email isn't in Slack
+ */
+export async function findSlackUserId(email: string) {
+  if (!slackApp) return null;
+
+  try {
+    const { user } = await slackApp.client.users.lookupByEmail({ email });
+    return user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send a direct message to a workspace member by email
+ *
+ * Returns false when the email doesn't match a Slack user.
+ */
+export async function sendSlackDirectMessage(email: string, text: string) {
+  if (!slackApp) {
+    throw new Error(
+      'Slack app is not initialized. Please set SLACK_BOT_TOKEN and SLACK_SIGNING_SECRET environment variables.'
+    );
+  }
+
+  const userId = await findSlackUserId(email);
+  if (!userId) return false;
+
+  // Posting to a user id delivers the message in the bot's DM with them
+  await slackApp.client.chat.postMessage({ channel: userId, text });
+  return true;
+}
+
+/**
+ * Alert the rep assigned to a lead
+ *
+ * Posts in the lead's review thread (broadcast to the channel) or to
+ * `SLACK_CHANNEL_ID`, mentioning the rep (`assignedRepId`, looked up in the
+ * sales team) when their email matches a Slack user.
+ */
+export async function alertLeadOwner(lead: LeadRecord, text: string) {
+  if (!slackApp) {
+    throw new Error(
+      'Slack app is not initialized. Please set SLACK_BOT_TOKEN and SLACK_SIGNING_SECRET environment variables.'
+    );
+  }
+
+  const owner = lead.assignedRepId
+    ? await getSalesTeamMember(lead.assignedRepId)
+    : null;
+
+  // Reps outside the workspace get the alert without a mention
+  const ownerId = owner ? await findSlackUserId(owner.email) : null;
+  const mention = ownerId ? `<@${ownerId}> ` : '';
+
+  if (lead.slack) {
+    await slackApp.client.chat.postMessage({
+      channel: lead.slack.channel,
+      thread_ts: lead.slack.messageTs,
+      reply_broadcast: true,
+      text: `${mention}${text}`
+    });
+    return;
+  }
+
+  await slackApp.client.chat.postMessage({
+    channel: process.env.SLACK_CHANNEL_ID || '',
+    text: `${mention}${text}`
+  });
+}
+
+/**
+ * Resolve the stored lead behind a Slack button click
+ *
+ * Prefers the lead id embedded in the button value, falling back to the
+ * message timestamp for messages posted before ids were embedded.
+ */
+export async function findLeadForAction(
+  body: BlockAction
+): Promise<LeadRecord | null> {
+  const store = getLeadStore();
+  const action = body.actions[0];
+
+  if (action?.type === 'button' && action.value) {
+    const lead = await store.get(parseLeadActionValue(action.value).leadId);
+    if (lead) return lead;
+  }
+
+  const messageTs = body.message?.ts;
+  if (!messageTs) return null;
+
+  const [lead] = await store.find({ slackMessageTs: messageTs });
+  return lead ?? null;
+}
+
+const rejectionReasonLabels: Record<RejectionReason, string> = {
+  WRONG_CATEGORY: 'Wrong category',
+  BAD_TONE: 'Bad tone',
+  FACTUAL_ERROR: 'Factual error',
+  NOT_A_LEAD: 'Not a lead'
+};
+
+/**
+ * Modal asking the reviewer why a draft was rejected
+ */
+export function buildRejectionModal(
+  leadId: string,
+  revision: number
+): types.ModalView {
+  return {
+    type: 'modal',
+    callback_id: 'lead_rejection_modal',
+    private_metadata: `${leadId}:${revision}`,
+    title: { type: 'plain_text', text: 'Reject draft' },
+    submit: { type: 'plain_text', text: 'Reject' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'reason',
+        label: { type: 'plain_text', text: 'Reason' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          options: rejectionReasonSchema.options.map((reason) => ({
+            text: { type: 'plain_text', text: rejectionReasonLabels[reason] },
+            value: reason
+          }))
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'feedback',
+        optional: true,
+        label: { type: 'plain_text', text: 'Guidance for the rewrite' },
+        hint: {
+          type: 'plain_text',
+          text: 'The email will be regenerated with this guidance unless the reason is "Not a lead".'
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Read the submitted rejection modal
+ */
+export function parseRejectionModal(view: ViewOutput): {
+  leadId: string;
+  revision: number;
+  reason: RejectionReason;
+  feedback?: string;
+} {
+  const { values } = view.state;
+
+  return {
+    ...parseLeadActionValue(view.private_metadata),
+    reason: rejectionReasonSchema.parse(
+      values.reason.value.selected_option?.value
+    ),
+    feedback: values.feedback.value.value?.trim() || undefined
+  };
+}
+
+/**
+ * Modal for editing the draft before approval, pre-filled with the current version
+ */
+export function buildEditEmailModal(
+  leadId: string,
+  revision: number,
+  subject: string,
+  body: string
+): types.ModalView {
+  return {
+    type: 'modal',
+    callback_id: 'lead_edit_modal',
+    private_metadata: `${leadId}:${revision}`,
+    title: { type: 'plain_text', text: 'Edit email' },
+    submit: { type: 'plain_text', text: 'Save' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'subject',
+        label: { type: 'plain_text', text: 'Subject' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          initial_value: subject
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'body',
+        label: { type: 'plain_text', text: 'Body' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          initial_value: body
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Read the submitted edit modal
+ */
+export function parseEditEmailModal(view: ViewOutput): {
+  leadId: string;
+  revision: number;
+  subject: string;
+  body: string;
+} {
+  const { values } = view.state;
+
+  return {
+    ...parseLeadActionValue(view.private_metadata),
+    subject: values.subject.value.value ?? '',
+    body: values.body.value.value ?? ''
+  };
+}
@@ -0,0 +1,180 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { JsonFileCollection } from '@/lib/file-store';
+
+/**
+ * Address or whole domain that must never be emailed
+ */
+export interface SuppressionEntry {
+  id: string;
+  type: 'email' | 'domain';
+  value: string;
+  reason: 'unsubscribe' | 'bounce' | 'complaint' | 'manual';
+  source?: string;
+  createdAt: string;
+}
+
+/**
+ * Raised when a send is attempted to a suppressed address
+ */
+export class SuppressedRecipientError extends Error {
+  constructor(
+    public email: string,
+    public entry: SuppressionEntry
+  ) {
+    super(
+      `${email} is suppressed (${entry.type} ${entry.value}: ${entry.reason})`
+    );
+    this.name = 'SuppressedRecipientError';
+  }
+}
+
+const suppressions = new JsonFileCollection<SuppressionEntry>('suppressions');
+
+const suppressionId = (type: SuppressionEntry['type'], value: string) =>
+  `${type}:${value.trim().toLowerCase()}`;
+
+const emailDomain = (email: string) =>
+  email.trim().toLowerCase().split('@').pop() ?? '';
+
+/**
+ * Add an email address or domain to the suppression list
+ *
+ * Re-adding an existing entry keeps the original record.
+ */
+export async function addSuppression(
+  entry: Omit<SuppressionEntry, 'id' | 'createdAt'>
+): Promise<SuppressionEntry> {
+  const id = suppressionId(entry.type, entry.value);
+  const existing = await suppressions.get(id);
+  if (existing) return existing;
+
+  return suppressions.put({
+    ...entry,
+    id,
+    value: entry.value.trim().toLowerCase(),
+    createdAt: new Date().toISOString()
+  });
+}
+
+/**
+ * Remove an email address or domain from the suppression list
+ */
+export async function removeSuppression(
+  type: SuppressionEntry['type'],
+  value: string
+) {
+  return suppressions.delete(suppressionId(type, value));
+}
+
+/**
+ * List suppression entries, newest first
+ */
+export async function listSuppressions(): Promise<SuppressionEntry[]> {
+  const all = await suppressions.list();
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find the entry suppressing an email address, by address or by domain
+ */
+export async function findSuppression(
+  email: string
+): Promise<SuppressionEntry | null> {
+  return (
+    (await suppressions.get(suppressionId('email', email))) ??
+    (await suppressions.get(suppressionId('domain', emailDomain(email))))
+  );
+}
+
+/**
+ * Throw `SuppressedRecipientError` if the address must not be emailed
+ */
+export async function assertNotSuppressed(email: string) {
+  const entry = await findSuppression(email);
+  if (entry) {
+    throw new SuppressedRecipientError(email, entry);
+  }
+}
+
+let warnedMissingSecret = false;
+
+// Without a secret anyone could forge tokens, so production refuses to sign
+// or verify them
+function unsubscribeSecret() {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'UNSUBSCRIBE_SECRET must be set to sign and verify unsubscribe links'
+    );
+  }
+  if (!secret && !warnedMissingSecret) {
+    warnedMissingSecret = true;
+    console.warn(
+      '⚠️  UNSUBSCRIBE_SECRET is not set. Unsubscribe links are signed with an insecure development secret.'
+    );
+  }
+  return secret || 'development-unsubscribe-secret';
+}
+
+function sign(email: string) {
+  return createHmac('sha256', unsubscribeSecret())
+    .update(email)
+    .digest('base64url');
+}
+
+/**
+ * Create a signed, non-expiring unsubscribe token for an address
+ */
+export function createUnsubscribeToken(email: string) {
+  const normalized = email.trim().toLowerCase();
+  return `${Buffer.from(normalized).toString('base64url')}.${sign(normalized)}`;
+}
+
+/**
+ * Verify an unsubscribe token and return the address it was issued for
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const email = Buffer.from(encoded, 'base64url').toString('utf8');
+  const expected = Buffer.from(sign(email));
+  const provided = Buffer.from(signature);
+
+  if (
+    expected.length !== provided.length ||
+    !timingSafeEqual(expected, provided)
+  ) {
+    return null;
+  }
+
+  return email;
+}
+
+/**
+ * Public base URL used in links inside outgoing emails
+ */
+export function getAppUrl() {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '');
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
+    return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+  }
+  return 'http://localhost:3000';
+}
+
+/**
+ * One-click unsubscribe link for an address
+ */
+export function getUnsubscribeUrl(email: string) {
+  return `${getAppUrl()}/api/unsubscribe?token=${createUnsubscribeToken(email)}`;
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers enabling one-click unsubscribe in mail clients
+ */
+export function getUnsubscribeHeaders(email: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${getUnsubscribeUrl(email)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  };
+}
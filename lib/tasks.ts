@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { JsonFileCollection } from '@/lib/file-store';
+
+/**
+ * Manual task for a sales rep (LinkedIn, phone and video touches)
+ */
+export interface RepTask {
+  id: string;
+  leadId: string;
+  channel: 'linkedin' | 'phone' | 'video';
+  title: string;
+  content: string;
+  objective: string;
+  /** Rep id, or the Slack user who approved the sequence */
+  assignee?: string;
+  dueAt: string;
+  status: 'open' | 'done';
+  createdAt: string;
+  completedAt?: string;
+}
+
+const tasks = new JsonFileCollection<RepTask>('tasks');
+
+/**
+ * Create a rep task
+ *
+ * Integration point for pushing tasks into a CRM (Salesforce, HubSpot, etc.)
+ */
+export async function createRepTask(
+  task: Omit<RepTask, 'id' | 'status' | 'createdAt'>
+): Promise<RepTask> {
+  return tasks.put({
+    ...task,
+    id: randomUUID(),
+    status: 'open',
+    createdAt: new Date().toISOString()
+  });
+}
+
+/**
+ * List rep tasks, soonest due first
+ */
+export async function listRepTasks(
+  filter: {
+    leadId?: string;
+    assignee?: string;
+    status?: RepTask['status'];
+  } = {}
+): Promise<RepTask[]> {
+  const all = await tasks.list();
+  return all
+    .filter(
+      (task) =>
+        (!filter.leadId || task.leadId === filter.leadId) &&
+        (!filter.assignee || task.assignee === filter.assignee) &&
+        (!filter.status || task.status === filter.status)
+    )
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+/**
+ * Mark a rep task done, or reopen it
+ *
+ * Returns null when the task doesn't exist.
+ */
+export async function setRepTaskStatus(
+  id: string,
+  status: RepTask['status']
+): Promise<RepTask | null> {
+  return tasks.update(id, (task) => ({
+    ...task,
+    status,
+    completedAt: status === 'done' ? new Date().toISOString() : undefined
+  }));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocation } from '@/lib/territories';
+
+describe('parseLocation', () => {
+  it('reads a city and country', () => {
+    expect(parseLocation('Berlin, Germany')).toEqual({
+      country: 'DE',
+      region: 'EMEA'
+    });
+    expect(parseLocation('London, UK')).toEqual({
+      country: 'GB',
+      region: 'EMEA'
+    });
+  });
+
+  it('reads US states by code or name', () => {
+    expect(parseLocation('Austin, TX')).toEqual({
+      country: 'US',
+      state: 'TX',
+      region: 'NA'
+    });
+    expect(parseLocation('San Francisco, California, USA')).toEqual({
+      country: 'US',
+      state: 'CA',
+      region: 'NA'
+    });
+  });
+
+  it('reads the state after a city named like another state', () => {
+    expect(parseLocation('Washington, DC')).toEqual({
+      country: 'US',
+      state: 'DC',
+      region: 'NA'
+    });
+    expect(parseLocation('New York, NY')).toEqual({
+      country: 'US',
+      state: 'NY',
+      region: 'NA'
+    });
+  });
+
+  it('ignores postal codes', () => {
+    expect(parseLocation('San Francisco, CA 94103')).toEqual({
+      country: 'US',
+      state: 'CA',
+      region: 'NA'
+    });
+  });
+
+  it('does not read a country name inside a state name', () => {
+    expect(parseLocation('Santa Fe, New Mexico')).toEqual({
+      country: 'US',
+      state: 'NM',
+      region: 'NA'
+    });
+    expect(parseLocation('Mexico City, Mexico')).toEqual({
+      country: 'MX',
+      region: 'LATAM'
+    });
+  });
+
+  it('only looks for US states when no other country is named', () => {
+    expect(parseLocation('New South Wales, Australia')).toEqual({
+      country: 'AU',
+      region: 'APAC'
+    });
+  });
+
+  it('falls back to a sales region', () => {
+    expect(parseLocation('EMEA')).toEqual({ region: 'EMEA' });
+  });
+
+  it('returns null for unknown places', () => {
+    expect(parseLocation('Somewhere')).toBeNull();
+  });
+});
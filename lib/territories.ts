@@ -0,0 +1,392 @@
+import { FormSchema, LeadEnrichmentSchema } from '@/lib/types';
+
+/**
+ * Sales regions a territory can cover
+ */
+export type SalesRegion = 'NA' | 'LATAM' | 'EMEA' | 'APAC';
+
+/**
+ * Where a lead is located, and which signal it was inferred from
+ */
+export interface LeadRegion {
+  /** ISO 3166-1 alpha-2 country code */
+  country?: string;
+  /** US state code (e.g. `CA`) */
+  state?: string;
+  region?: SalesRegion;
+  source: 'form' | 'enrichment' | 'phone';
+}
+
+/**
+ * A territory assigned to a rep: a region, a country or a US state
+ */
+export type Territory =
+  | { type: 'region'; code: SalesRegion }
+  | { type: 'country'; code: string }
+  | { type: 'state'; code: string };
+
+const regionNames: Record<SalesRegion, string[]> = {
+  NA: ['north america'],
+  LATAM: ['latin america', 'south america'],
+  EMEA: ['europe', 'middle east', 'africa'],
+  APAC: ['asia pacific', 'asia-pacific', 'asia']
+};
+
+const countries: Record<
+  string,
+  { name: string; region: SalesRegion; dialCode: string; aliases?: string[] }
+> = {
+  US: {
+    name: 'United States',
+    region: 'NA',
+    dialCode: '1',
+    aliases: ['us', 'usa', 'u.s.', 'u.s.a.', 'united states of america']
+  },
+  CA: { name: 'Canada', region: 'NA', dialCode: '1' },
+  MX: { name: 'Mexico', region: 'LATAM', dialCode: '52' },
+  BR: { name: 'Brazil', region: 'LATAM', dialCode: '55', aliases: ['brasil'] },
+  AR: { name: 'Argentina', region: 'LATAM', dialCode: '54' },
+  CL: { name: 'Chile', region: 'LATAM', dialCode: '56' },
+  CO: { name: 'Colombia', region: 'LATAM', dialCode: '57' },
+  PE: { name: 'Peru', region: 'LATAM', dialCode: '51' },
+  GB: {
+    name: 'United Kingdom',
+    region: 'EMEA',
+    dialCode: '44',
+    aliases: ['uk', 'u.k.', 'great britain', 'britain', 'england', 'scotland']
+  },
+  IE: { name: 'Ireland', region: 'EMEA', dialCode: '353' },
+  DE: {
+    name: 'Germany',
+    region: 'EMEA',
+    dialCode: '49',
+    aliases: ['deutschland']
+  },
+  FR: { name: 'France', region: 'EMEA', dialCode: '33' },
+  ES: { name: 'Spain', region: 'EMEA', dialCode: '34' },
+  IT: { name: 'Italy', region: 'EMEA', dialCode: '39' },
+  NL: {
+    name: 'Netherlands',
+    region: 'EMEA',
+    dialCode: '31',
+    aliases: ['the netherlands', 'holland']
+  },
+  BE: { name: 'Belgium', region: 'EMEA', dialCode: '32' },
+  CH: { name: 'Switzerland', region: 'EMEA', dialCode: '41' },
+  AT: { name: 'Austria', region: 'EMEA', dialCode: '43' },
+  SE: { name: 'Sweden', region: 'EMEA', dialCode: '46' },
+  NO: { name: 'Norway', region: 'EMEA', dialCode: '47' },
+  DK: { name: 'Denmark', region: 'EMEA', dialCode: '45' },
+  FI: { name: 'Finland', region: 'EMEA', dialCode: '358' },
+  PL: { name: 'Poland', region: 'EMEA', dialCode: '48' },
+  PT: { name: 'Portugal', region: 'EMEA', dialCode: '351' },
+  CZ: {
+    name: 'Czech Republic',
+    region: 'EMEA',
+    dialCode: '420',
+    aliases: ['czechia']
+  },
+  IL: { name: 'Israel', region: 'EMEA', dialCode: '972' },
+  AE: {
+    name: 'United Arab Emirates',
+    region: 'EMEA',
+    dialCode: '971',
+    aliases: ['uae']
+  },
+  SA: { name: 'Saudi Arabia', region: 'EMEA', dialCode: '966' },
+  TR: {
+    name: 'Turkey',
+    region: 'EMEA',
+    dialCode: '90',
+    aliases: ['türkiye']
+  },
+  EG: { name: 'Egypt', region: 'EMEA', dialCode: '20' },
+  NG: { name: 'Nigeria', region: 'EMEA', dialCode: '234' },
+  KE: { name: 'Kenya', region: 'EMEA', dialCode: '254' },
+  ZA: { name: 'South Africa', region: 'EMEA', dialCode: '27' },
+  IN: { name: 'India', region: 'APAC', dialCode: '91' },
+  CN: { name: 'China', region: 'APAC', dialCode: '86' },
+  JP: { name: 'Japan', region: 'APAC', dialCode: '81' },
+  KR: {
+    name: 'South Korea',
+    region: 'APAC',
+    dialCode: '82',
+    aliases: ['korea']
+  },
+  HK: { name: 'Hong Kong', region: 'APAC', dialCode: '852' },
+  TW: { name: 'Taiwan', region: 'APAC', dialCode: '886' },
+  SG: { name: 'Singapore', region: 'APAC', dialCode: '65' },
+  MY: { name: 'Malaysia', region: 'APAC', dialCode: '60' },
+  ID: { name: 'Indonesia', region: 'APAC', dialCode: '62' },
+  PH: { name: 'Philippines', region: 'APAC', dialCode: '63' },
+  TH: { name: 'Thailand', region: 'APAC', dialCode: '66' },
+  VN: { name: 'Vietnam', region: 'APAC', dialCode: '84' },
+  AU: { name: 'Australia', region: 'APAC', dialCode: '61' },
+  NZ: { name: 'New Zealand', region: 'APAC', dialCode: '64' }
+};
+
+const usStates: Record<string, string> = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming'
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Short abbreviations (UK, USA) only count when written in capitals
+function containsWord(text: string, word: string) {
+  const short = word.length <= 3;
+  const pattern = escapeRegExp(short ? word.toUpperCase() : word);
+
+  return new RegExp(
+    `(^|[^\\p{L}])${pattern}($|[^\\p{L}])`,
+    short ? 'u' : 'iu'
+  ).test(text);
+}
+
+function findCountryByName(value: string) {
+  const normalized = value.trim().toLowerCase();
+  return Object.keys(countries).find((code) => {
+    const country = countries[code];
+    return (
+      country.name.toLowerCase() === normalized ||
+      country.aliases?.includes(normalized)
+    );
+  });
+}
+
+function findStateByName(value: string) {
+  const normalized = value.trim().toLowerCase();
+  return Object.keys(usStates).find(
+    (code) => usStates[code].toLowerCase() === normalized
+  );
+}
+
+function findRegionByName(value: string) {
+  const normalized = value.trim().toLowerCase();
+  return (Object.keys(regionNames) as SalesRegion[]).find(
+    (region) =>
+      region.toLowerCase() === normalized ||
+      regionNames[region].includes(normalized)
+  );
+}
+
+/**
+ * Parse a free-form location such as "Austin, TX", "Berlin, Germany" or
+ * "San Francisco, California, USA"
+ *
+ * US states are only recognized when no other country is named.
+ */
+export function parseLocation(
+  text: string
+): Omit<LeadRegion, 'source'> | null {
+  // Drop postal codes so "CA 94103" still reads as a state
+  const parts = text
+    .split(/[,;|/]/)
+    .map((part) => part.replace(/\b\d{4,5}(-\d{4})?\b/g, '').trim())
+    .filter(Boolean);
+
+  let country = [...parts].reverse().map(findCountryByName).find(Boolean);
+  if (!country) {
+    // Country names inside a state name ("New Mexico") don't count
+    const withoutStates = Object.values(usStates).reduce(
+      (remaining, name) =>
+        remaining.replace(new RegExp(escapeRegExp(name), 'gi'), ' '),
+      text
+    );
+    country = Object.keys(countries).find((code) =>
+      [countries[code].name, ...(countries[code].aliases ?? [])].some((name) =>
+        containsWord(withoutStates, name)
+      )
+    );
+  }
+
+  let state: string | undefined;
+  if (!country || country === 'US') {
+    // The state comes last, after a city that may share a state's name
+    // ("Washington, DC")
+    state = [...parts]
+      .reverse()
+      .map(
+        (part) =>
+          findStateByName(part) ??
+          (/^[A-Z]{2}$/.test(part) && usStates[part] ? part : undefined)
+      )
+      .find(Boolean);
+    state ??= Object.keys(usStates).find((code) =>
+      containsWord(text, usStates[code])
+    );
+    if (state) country = 'US';
+  }
+
+  if (country) {
+    return { country, state, region: countries[country].region };
+  }
+
+  const region = parts.map(findRegionByName).find(Boolean);
+  return region ? { region } : null;
+}
+
+/**
+ * Infer the country from an international phone number (`+49 ...`,
+ * `0044 ...`)
+ *
+ * `+1` numbers resolve to North America without a country, as the US and
+ * Canada share the code.
+ */
+export function parsePhoneRegion(
+  phone: string
+): Omit<LeadRegion, 'source'> | null {
+  const match = phone.trim().match(/^(?:\+|00)\s*(\d[\d\s\-().]*)$/);
+  if (!match) return null;
+
+  const digits = match[1].replace(/\D/g, '');
+  for (let length = 3; length >= 1; length--) {
+    const dialCode = digits.slice(0, length);
+    const matches = Object.keys(countries).filter(
+      (code) => countries[code].dialCode === dialCode
+    );
+    if (matches.length === 1) {
+      return { country: matches[0], region: countries[matches[0]].region };
+    }
+    if (matches.length > 1) {
+      return { region: countries[matches[0]].region };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out where a lead is located
+ *
+ * An explicit form field wins, then the enrichment `headquarters`, then the
+ * phone country code.
+ */
+export function inferLeadRegion(
+  lead: FormSchema,
+  enrichment?: LeadEnrichmentSchema
+): LeadRegion | null {
+  const fromForm = lead.location && parseLocation(lead.location);
+  if (fromForm) return { ...fromForm, source: 'form' };
+
+  const fromEnrichment =
+    enrichment?.headquarters && parseLocation(enrichment.headquarters);
+  if (fromEnrichment) return { ...fromEnrichment, source: 'enrichment' };
+
+  const fromPhone = lead.phone && parsePhoneRegion(lead.phone);
+  if (fromPhone) return { ...fromPhone, source: 'phone' };
+
+  return null;
+}
+
+/**
+ * Parse a territory definition
+ *
+ * Accepts region codes or names (`EMEA`, `North America`), country codes or
+ * names (`DE`, `Germany`) and US states (`US-CA`, `California`).
+ */
+export function parseTerritory(value: string): Territory | null {
+  const trimmed = value.trim();
+  const upper = trimmed.toUpperCase();
+
+  const stateCode = upper.match(/^US-([A-Z]{2})$/)?.[1];
+  if (stateCode && usStates[stateCode]) {
+    return { type: 'state', code: stateCode };
+  }
+
+  const region = findRegionByName(trimmed);
+  if (region) return { type: 'region', code: region };
+
+  if (countries[upper]) return { type: 'country', code: upper };
+
+  const country = findCountryByName(trimmed);
+  if (country) return { type: 'country', code: country };
+
+  const state = findStateByName(trimmed);
+  if (state) return { type: 'state', code: state };
+
+  return null;
+}
+
+/**
+ * How closely a territory covers a lead's region: 3 for a US state, 2 for a
+ * country, 1 for a region, 0 when it doesn't cover it
+ */
+export function territoryMatchLevel(
+  territory: string,
+  region: LeadRegion
+): number {
+  const parsed = parseTerritory(territory);
+  if (!parsed) return 0;
+
+  switch (parsed.type) {
+    case 'state':
+      return region.country === 'US' && region.state === parsed.code ? 3 : 0;
+    case 'country':
+      return region.country === parsed.code ? 2 : 0;
+    case 'region':
+      return region.region === parsed.code ? 1 : 0;
+  }
+}
+
+/**
+ * Human-readable location, e.g. "California, United States"
+ */
+export function describeLeadRegion(region: LeadRegion) {
+  const parts = [
+    region.state && usStates[region.state],
+    region.country && countries[region.country].name
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : (region.region ?? 'Unknown');
+}
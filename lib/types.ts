@@ -1,11 +1,16 @@
 import { z } from 'zod';
+import { classifyEmailDomain } from '@/lib/email-domains';
 
 /**
  * Lead schema
  */
 
 export const formSchema = z.object({
-  email: z.email('Please enter a valid email address.'),
+  email: z
+    .email('Please enter a valid email address.')
+    .refine((email) => classifyEmailDomain(email) !== 'disposable', {
+      message: 'Disposable email addresses are not accepted.'
+    }),
   name: z
     .string()
     .min(2, 'Name is required')
@@ -17,6 +22,11 @@ export const formSchema = z.object({
     .optional()
     .or(z.literal('')),
   company: z.string().optional().or(z.literal('')),
+  location: z
+    .string()
+    .max(100, 'Location must be at most 100 characters.')
+    .optional()
+    .or(z.literal('')),
   message: z
     .string()
     .min(10, 'Message is required')
@@ -47,6 +57,10 @@ export const leadPrioritySchema = z.enum([
   'LOW' // Respond within 24 hours
 ]);
 
+export type LeadPriority = z.infer<typeof leadPrioritySchema>;
+
+export type QualificationCategory = z.infer<typeof qualificationCategorySchema>;
+
 export const industrySchema = z.enum([
   'TECHNOLOGY',
   'FINANCE',
@@ -67,6 +81,45 @@ export const companySizeSchema = z.enum([
   'UNKNOWN'
 ]);
 
+/**
+ * Rules-based score of a lead and how it was blended with the LLM score
+ */
+export const leadScoringSchema = z.object({
+  ruleScore: z.number().min(0).max(100),
+  llmScore: z.number().min(0).max(100),
+  weights: z.object({ rules: z.number(), llm: z.number() }),
+  factors: z.array(
+    z.object({
+      factor: z.string(),
+      detail: z.string(),
+      points: z.number()
+    })
+  )
+});
+
+export type LeadScoring = z.infer<typeof leadScoringSchema>;
+
+/**
+ * Category, priority and score contradictions found in an LLM qualification,
+ * and how they were resolved
+ */
+export const qualificationConsistencySchema = z.object({
+  violations: z.array(z.string()),
+  original: z.object({
+    category: qualificationCategorySchema,
+    priority: leadPrioritySchema,
+    leadScore: z.number()
+  }),
+  // Whether the model was asked again with the violations
+  reprompted: z.boolean(),
+  // Deterministic fixes applied when the answer was still inconsistent
+  corrections: z.array(z.string())
+});
+
+export type QualificationConsistency = z.infer<
+  typeof qualificationConsistencySchema
+>;
+
 export const qualificationSchema = z.object({
   category: qualificationCategorySchema,
   priority: leadPrioritySchema,
@@ -88,7 +141,10 @@ export const qualificationSchema = z.object({
   assignedTo: z
     .string()
     .optional()
-    .describe('Suggested sales rep or team to handle this lead')
+    .describe('Suggested sales rep or team to handle this lead'),
+  // Filled in after the LLM call, `leadScore` then holds the blended score
+  scoring: leadScoringSchema.optional(),
+  consistency: qualificationConsistencySchema.optional()
 });
 
 export type QualificationSchema = z.infer<typeof qualificationSchema>;
@@ -120,6 +176,17 @@ export const leadEnrichmentSchema = z.object({
 
 export type LeadEnrichmentSchema = z.infer<typeof leadEnrichmentSchema>;
 
+/**
+ * Follow-up email in a nurture sequence
+ */
+export const followUpEmailSchema = z.object({
+  dayOffset: z.number().describe('Days after previous email'),
+  subject: z.string(),
+  body: z.string()
+});
+
+export type FollowUpEmail = z.infer<typeof followUpEmailSchema>;
+
 /**
  * Email template types
  */
@@ -134,3 +201,82 @@ export const emailTemplateTypeSchema = z.enum([
 ]);
 
 export type EmailTemplateType = z.infer<typeof emailTemplateTypeSchema>;
+
+/**
+ * Reasons a reviewer can give when rejecting a draft in Slack
+ */
+export const rejectionReasonSchema = z.enum([
+  'WRONG_CATEGORY', // Lead was miscategorized
+  'BAD_TONE', // Tone doesn't fit the lead or brand
+  'FACTUAL_ERROR', // Draft contains incorrect claims
+  'NOT_A_LEAD' // Spam, vendor pitch, etc. - don't regenerate
+]);
+
+export type RejectionReason = z.infer<typeof rejectionReasonSchema>;
+
+/**
+ * Categories for replies received from leads
+ */
+export const replyCategorySchema = z.enum([
+  'INTERESTED', // Wants to talk or learn more
+  'NOT_NOW', // Interested later, not at this time
+  'OUT_OF_OFFICE', // Auto-reply, back at a later date
+  'WRONG_PERSON', // Not the right contact, may refer someone else
+  'UNSUBSCRIBE', // Asked not to be contacted
+  'OBJECTION' // Pushback on price, fit, competitor, etc.
+]);
+
+export type ReplyCategory = z.infer<typeof replyCategorySchema>;
+
+export const replyClassificationSchema = z.object({
+  category: replyCategorySchema,
+  summary: z.string().describe('One sentence summary of the reply'),
+  returnDate: z
+    .string()
+    .optional()
+    .describe('For OUT_OF_OFFICE: the date they are back (YYYY-MM-DD)'),
+  referral: z
+    .string()
+    .optional()
+    .describe('For WRONG_PERSON: the person they pointed us to, if any')
+});
+
+export type ReplyClassification = z.infer<typeof replyClassificationSchema>;
+
+/**
+ * Lead lifecycle status
+ */
+export const leadStatusSchema = z.enum([
+  'PROCESSING', // Workflow is researching and qualifying
+  'AWAITING_APPROVAL', // Draft posted to Slack for human review
+  'APPROVED', // Reviewer approved the draft
+  'SENDING', // Approved email being delivered
+  'SENT', // Approved email delivered
+  'REJECTED', // Reviewer rejected the draft
+  'REVIEW_EXPIRED', // Nobody reviewed the draft in time
+  'REPLIED', // Lead wrote back
+  'MEETING_BOOKED', // Lead booked a meeting
+  'UNSUBSCRIBED', // Lead opted out of emails
+  'BOUNCED', // Lead's address hard-bounced
+  'CLOSED', // Marked closed by sales
+  'COMPLETED', // Workflow finished without needing review
+  'DISQUALIFIED' // Not a fit for outreach
+]);
+
+export type LeadStatus = z.infer<typeof leadStatusSchema>;
+
+export const leadSourceSchema = z.enum(['inbound', 'outbound']);
+
+export type LeadSource = z.infer<typeof leadSourceSchema>;
+
+/**
+ * Sales team roles used in routing
+ */
+export const salesRoleSchema = z.enum([
+  'SDR',
+  'AE',
+  'ENTERPRISE_AE',
+  'TEAM_LEAD' // Only receives leads nobody else is eligible for
+]);
+
+export type SalesRole = z.infer<typeof salesRoleSchema>;
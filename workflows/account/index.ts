@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { getWorkflowMetadata, sleep } from 'workflow';
+import { stepResearchAccount } from './steps';
+import {
+  awaitOutboundReview,
+  OutboundProspect,
+  outboundProspectSchema,
+  runTouchPointSequence,
+  sendOutboundInitialEmail
+} from '@/workflows/outbound';
+import {
+  MultiTouchSequence,
+  ProspectQualification,
+  stepGenerateMultiTouchSequence,
+  stepGenerateOutboundEmail,
+  stepQualifyProspect,
+  stepReviewOutbound,
+  TouchPoint
+} from '@/workflows/outbound/steps';
+import {
+  stepCheckSuppression,
+  stepCreateLead,
+  stepNotifyLeadThread,
+  stepUpdateLead
+} from '@/workflows/shared/steps';
+import { leadReviewHook, leadReviewToken } from '@/workflows/shared/hooks';
+import { LeadStatus } from '@/lib/types';
+
+/**
+ * Account-based outbound schema: one company and the stakeholders to contact
+ */
+export const outboundAccountSchema = z.object({
+  company: z.string(),
+  companyWebsite: z.string().optional(),
+  campaignType: outboundProspectSchema.shape.campaignType,
+  contacts: z
+    .array(
+      outboundProspectSchema.pick({
+        name: true,
+        email: true,
+        title: true,
+        linkedinUrl: true,
+        targetPersona: true
+      })
+    )
+    .min(1)
+    .max(20)
+    .refine(
+      (contacts) =>
+        new Set(contacts.map((contact) => contact.email.toLowerCase())).size ===
+        contacts.length,
+      { message: 'Contact emails must be unique' }
+    )
+});
+
+export type OutboundAccount = z.infer<typeof outboundAccountSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ContactPlan {
+  leadId: string;
+  prospect: OutboundProspect;
+  qualification: ProspectQualification;
+  sequence: MultiTouchSequence;
+  startDay: number;
+}
+
+/**
+ * Account-based outbound workflow
+ *
+ * Targets several stakeholders at one company:
+ * 1. Research the account once
+ * 2. Qualify each contact and write persona-specific messaging that avoids
+ *    repeating what their colleagues receive
+ * 3. Stagger the sequences so no two stakeholders get an email on the same day
+ * 4. Send each contact's sequence to Slack for review
+ * 5. Once every review is in, send the initial emails on their staggered days
+ *    and execute each contact's sequence
+ *
+ * Every contact is stored as an outbound lead tagged with the account id
+ * (this workflow's run id).
+ */
+export const workflowAccountOutbound = async (account: OutboundAccount) => {
+  'use workflow';
+
+  const { workflowRunId: accountId } = getWorkflowMetadata();
+
+  console.log(
+    `🏢 Starting account-based outbound for ${account.company} (${account.contacts.length} contacts)`
+  );
+
+  // Step 1: Shared account research
+  console.log('🔍 Step 1: Researching the account...');
+  const research = await stepResearchAccount(account);
+
+  // Step 2: Persona-specific qualification and messaging
+  const plans: Omit<ContactPlan, 'startDay'>[] = [];
+  const outcomes: Record<string, LeadStatus> = {};
+  const colleagueEmails: string[] = [];
+
+  for (const contact of account.contacts) {
+    const prospect: OutboundProspect = {
+      ...contact,
+      company: account.company,
+      companyWebsite: account.companyWebsite,
+      campaignType: account.campaignType
+    };
+
+    const leadId = await stepCreateLead({
+      source: 'outbound',
+      input: prospect,
+      accountId
+    });
+    await stepUpdateLead(leadId, { research });
+
+    const suppressed = await stepCheckSuppression(leadId);
+    if (suppressed) {
+      console.log(
+        `🚫 ${contact.email} is suppressed (${suppressed}) - skipping`
+      );
+      outcomes[leadId] = suppressed === 'bounce' ? 'BOUNCED' : 'UNSUBSCRIBED';
+      continue;
+    }
+
+    console.log(`🎯 Step 2: Qualifying ${contact.name}...`);
+    const qualification = await stepQualifyProspect(prospect, research);
+    await stepUpdateLead(leadId, { qualification });
+
+    if (!qualification.shouldReachOut) {
+      outcomes[leadId] = 'DISQUALIFIED';
+      await stepUpdateLead(leadId, { status: outcomes[leadId] });
+      continue;
+    }
+
+    const email = await stepGenerateOutboundEmail(
+      prospect,
+      research,
+      qualification,
+      colleagueEmails
+    );
+    colleagueEmails.push(email);
+
+    const sequence = await stepGenerateMultiTouchSequence(
+      prospect,
+      research,
+      qualification,
+      email
+    );
+    await stepUpdateLead(leadId, { email });
+
+    plans.push({ leadId, prospect, qualification, sequence });
+  }
+
+  // Step 3: Coordinate touchpoints across stakeholders
+  console.log('🗓️  Step 3: Coordinating touchpoints across contacts...');
+  const schedules = coordinateTouchPoints(
+    plans.map((plan) => plan.sequence.touchPoints)
+  );
+  const coordinated: ContactPlan[] = plans.map((plan, index) => ({
+    ...plan,
+    sequence: { ...plan.sequence, touchPoints: schedules[index].touchPoints },
+    startDay: schedules[index].startDay
+  }));
+
+  // Step 4: Review each contact's sequence in Slack
+  console.log('👤 Step 4: Sending sequences to Slack for approval...');
+  const reviews = [];
+  for (const plan of coordinated) {
+    await stepUpdateLead(plan.leadId, {
+      sequence: plan.sequence,
+      touchPoints: plan.sequence.touchPoints.map((touchPoint) => ({
+        ...touchPoint,
+        status: 'pending' as const
+      }))
+    });
+
+    const review = leadReviewHook.create({
+      token: leadReviewToken(plan.leadId)
+    });
+    const slack = await stepReviewOutbound(
+      plan.prospect,
+      research,
+      plan.qualification,
+      plan.sequence,
+      plan.leadId
+    );
+    await stepUpdateLead(plan.leadId, { slack, status: 'AWAITING_APPROVAL' });
+
+    if (slack) reviews.push({ plan, review });
+  }
+
+  // Step 5: Start every approved sequence from a shared start date
+  const decisions = await Promise.all(
+    reviews.map(({ plan, review }) => awaitOutboundReview(plan.leadId, review))
+  );
+  const accountStart = Date.now();
+
+  console.log('📨 Step 5: Executing coordinated sequences...');
+  await Promise.all(
+    reviews.map(async ({ plan }, index) => {
+      const { outcome, decision } = decisions[index];
+      outcomes[plan.leadId] = outcome;
+      if (outcome !== 'APPROVED' || !decision) return;
+
+      const startedAt = accountStart + plan.startDay * DAY_MS;
+      if (plan.startDay > 0) {
+        await stepNotifyLeadThread(
+          plan.leadId,
+          `🗓️ Approved by <@${decision.reviewedBy}> - initial email scheduled for day ${plan.startDay} of the ${account.company} account sequence`
+        );
+        await sleep(new Date(startedAt));
+      }
+
+      outcomes[plan.leadId] = await sendOutboundInitialEmail(
+        plan.leadId,
+        decision
+      );
+      if (outcomes[plan.leadId] === 'SENT') {
+        await runTouchPointSequence(
+          plan.leadId,
+          plan.sequence.touchPoints,
+          startedAt
+        );
+      }
+    })
+  );
+
+  console.log(`✅ Account-based outbound for ${account.company} complete`);
+
+  return {
+    accountId,
+    company: account.company,
+    contacts: Object.entries(outcomes).map(([leadId, status]) => ({
+      leadId,
+      status
+    }))
+  };
+};
+
+/**
+ * Stagger each contact's sequence so no two stakeholders at the account get
+ * an email on the same day
+ *
+ * Each contact starts on the first day without an email to the account and
+ * later email touches move to the next free day. Days stay relative to the
+ * contact's own start, so the day 0 email remains the approved initial email.
+ */
+function coordinateTouchPoints(sequences: TouchPoint[][]) {
+  const emailDays = new Set<number>();
+
+  return sequences.map((touchPoints) => {
+    let startDay = 0;
+    while (emailDays.has(startDay)) startDay++;
+    emailDays.add(startDay);
+
+    let previous = startDay;
+    const scheduled = touchPoints.map((touchPoint) => {
+      let day = Math.max(startDay + touchPoint.day, previous);
+
+      if (touchPoint.channel === 'email' && touchPoint.day > 0) {
+        while (emailDays.has(day)) day++;
+        emailDays.add(day);
+      }
+
+      previous = day;
+      return { ...touchPoint, day: day - startDay };
+    });
+
+    return { startDay, touchPoints: scheduled };
+  });
+}
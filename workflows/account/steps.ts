@@ -0,0 +1,39 @@
+import { researchAgent } from '@/lib/services';
+import type { OutboundAccount } from './index';
+
+/**
+ * Step 1: Research the account once for every contact
+ */
+export const stepResearchAccount = async (account: OutboundAccount) => {
+  'use step';
+
+  const { text: research } = await researchAgent.generate({
+    prompt: `Conduct comprehensive ACCOUNT-LEVEL research for account-based outbound outreach:
+
+Company: ${account.company}
+Company Website: ${account.companyWebsite || 'Not provided'}
+Campaign Type: ${account.campaignType}
+
+Stakeholders we plan to contact:
+${account.contacts
+  .map(
+    (contact) =>
+      `- ${contact.name}, ${contact.title || 'Unknown title'}${contact.targetPersona ? ` (persona: ${contact.targetPersona})` : ''}`
+  )
+  .join('\n')}
+
+Research Focus:
+1. Company profile, size, industry, stage
+2. Recent company news, funding, growth signals
+3. Technology stack and infrastructure
+4. Strategic initiatives and challenges at the company level
+5. How each stakeholder's function is affected by those challenges
+6. Buying committee dynamics: likely champion, economic buyer, blockers
+7. Competitive landscape and alternatives they might use
+8. Relevant case studies or success stories
+
+Provide actionable account intelligence that persona-specific outreach to each stakeholder can build on.`
+  });
+
+  return research;
+};
@@ -1,12 +1,43 @@
-import { FormSchema } from '@/lib/types';
+import { Hook, sleep } from 'workflow';
 import {
+  FollowUpEmail,
+  FormSchema,
+  LeadEnrichmentSchema,
+  LeadStatus,
+  QualificationSchema
+} from '@/lib/types';
+import type { EmailRevision, LeadReview } from '@/lib/lead-store';
+import {
+  stepAssignLead,
+  stepExpireLeadReview,
   stepHumanFeedback,
+  stepNotifyAssignedRep,
   stepQualify,
+  stepStartSlaClock,
   stepResearch,
   stepWriteEmail,
   stepEnrichment,
-  stepGenerateFollowUpSequence
+  stepGenerateFollowUpSequence,
+  stepPostRevisedDraft,
+  stepSendFollowUp
 } from './steps';
+import {
+  stepCheckSuppression,
+  stepCreateLead,
+  stepGetLead,
+  stepNotifyLeadThread,
+  stepSendApprovedEmail,
+  stepSyncLeadToCrm,
+  stepUpdateLead
+} from '@/workflows/shared/steps';
+import { leadReviewHook, leadReviewToken } from '@/workflows/shared/hooks';
+
+/**
+ * How many times a rejected draft is regenerated before the lead is closed
+ */
+const MAX_REVISION_ROUNDS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Enhanced inbound lead workflow
@@ -18,6 +49,15 @@ import {
  * 4. Personalized email generation based on lead category
  * 5. Follow-up sequence generation for nurturing
  * 6. Human-in-the-loop approval via Slack
+ * 7. Suspend until the reviewer approves or rejects, then send and sync to CRM
+ *    (rejections with feedback regenerate the draft for another review round)
+ * 8. Send the follow-up sequence with durable sleeps between emails
+ *
+ * Every step's output is persisted on the lead record so Slack actions,
+ * dashboards and re-runs can read it back. Addresses on the suppression list
+ * are qualified but never emailed.
+ *
+ * Once assigned, the lead's response SLA is timed by `workflowLeadSla`.
  *
  * The workflow handles different lead categories with appropriate actions:
  * - HOT_LEAD: Immediate personalized outreach
@@ -32,24 +72,40 @@ import {
 export const workflowInbound = async (data: FormSchema) => {
   'use workflow';
 
+  const leadId = await stepCreateLead({ source: 'inbound', input: data });
+
   // Step 1: Comprehensive research
   console.log('🔍 Step 1: Conducting deep research on lead...');
   const research = await stepResearch(data);
+  await stepUpdateLead(leadId, { research });
 
   // Step 2: Enrich lead data
   console.log('📊 Step 2: Enriching lead data...');
   const enrichment = await stepEnrichment(data, research);
+  await stepUpdateLead(leadId, { enrichment });
 
   // Step 3: Qualify and score the lead
   console.log('🎯 Step 3: Qualifying and scoring lead...');
-  const qualification = await stepQualify(data, research, enrichment);
+  const scored = await stepQualify(data, research, enrichment);
+  const qualification = await stepAssignLead(leadId, data, enrichment, scored);
+  await stepNotifyAssignedRep(leadId);
 
   console.log(
     `✅ Lead qualified as: ${qualification.category} (Priority: ${qualification.priority}, Score: ${qualification.leadScore}/100)`
   );
 
+  const suppressed = await stepCheckSuppression(leadId);
+
+  if (!suppressed) {
+    // Runs until a human acts on the lead, the lead closes or the SLA breaches
+    await stepStartSlaClock(leadId);
+  }
+
   // Step 4 & 5: Handle based on qualification category
-  if (
+  if (suppressed) {
+    // Opted-out and bounced addresses are qualified for the record but never emailed
+    console.log(`🚫 ${data.email} is suppressed (${suppressed}) - no outreach`);
+  } else if (
     qualification.category === 'HOT_LEAD' ||
     qualification.category === 'QUALIFIED' ||
     qualification.category === 'WARM_LEAD' ||
@@ -73,6 +129,13 @@ export const workflowInbound = async (data: FormSchema) => {
       enrichment,
       email
     );
+    await stepUpdateLead(leadId, {
+      email,
+      followUpSequence: followUpSequence.map((followUp) => ({
+        ...followUp,
+        status: 'pending' as const
+      }))
+    });
 
     console.log(
       `📬 Generated initial email + ${followUpSequence.length} follow-ups`
@@ -80,9 +143,36 @@ export const workflowInbound = async (data: FormSchema) => {
 
     // Send to Slack for human approval
     console.log('👤 Step 6: Sending to Slack for approval...');
-    await stepHumanFeedback(data, research, email, qualification, enrichment);
+    const review = leadReviewHook.create({ token: leadReviewToken(leadId) });
+    const slack = await stepHumanFeedback(
+      data,
+      research,
+      email,
+      qualification,
+      enrichment,
+      leadId
+    );
+    await stepUpdateLead(leadId, { slack, status: 'AWAITING_APPROVAL' });
 
-    console.log('✅ Workflow complete - awaiting human approval');
+    if (slack) {
+      console.log('⏸️  Step 7: Awaiting human approval...');
+      const decision = await handleHumanReview(leadId, review, {
+        data,
+        research,
+        qualification,
+        enrichment,
+        email,
+        slack
+      });
+      console.log(`✅ Review outcome: ${decision}`);
+
+      if (decision === 'SENT') {
+        console.log('📨 Step 8: Running follow-up sequence...');
+        await runFollowUpSequence(leadId, followUpSequence);
+      }
+
+      console.log('✅ Workflow complete');
+    }
   } else if (qualification.category === 'SUPPORT') {
     // Support requests get immediate acknowledgment and redirect
     console.log('💬 Support request detected - generating redirect email...');
@@ -92,10 +182,32 @@ export const workflowInbound = async (data: FormSchema) => {
       qualification,
       enrichment
     );
+    await stepUpdateLead(leadId, { email });
 
-    await stepHumanFeedback(data, research, email, qualification, enrichment);
+    const review = leadReviewHook.create({ token: leadReviewToken(leadId) });
+    const slack = await stepHumanFeedback(
+      data,
+      research,
+      email,
+      qualification,
+      enrichment,
+      leadId
+    );
+    await stepUpdateLead(leadId, { slack, status: 'AWAITING_APPROVAL' });
 
     console.log('✅ Support redirect email sent to Slack for approval');
+
+    if (slack) {
+      const decision = await handleHumanReview(leadId, review, {
+        data,
+        research,
+        qualification,
+        enrichment,
+        email,
+        slack
+      });
+      console.log(`✅ Support redirect review outcome: ${decision}`);
+    }
   } else if (qualification.category === 'UNQUALIFIED') {
     // Unqualified leads get polite acknowledgment only
     console.log(
@@ -107,6 +219,7 @@ export const workflowInbound = async (data: FormSchema) => {
       qualification,
       enrichment
     );
+    await stepUpdateLead(leadId, { email, status: 'DISQUALIFIED' });
 
     console.log(
       '✅ Unqualified lead processed with polite acknowledgment (no follow-up sequence)'
@@ -120,12 +233,14 @@ export const workflowInbound = async (data: FormSchema) => {
       qualification,
       enrichment
     );
+    await stepUpdateLead(leadId, { email, status: 'COMPLETED' });
 
     console.log('✅ Cold lead email generated (light nurture approach)');
   }
 
   // Return qualification summary for tracking
   return {
+    leadId,
     leadName: data.name,
     leadEmail: data.email,
     category: qualification.category,
@@ -133,6 +248,216 @@ export const workflowInbound = async (data: FormSchema) => {
     leadScore: qualification.leadScore,
     estimatedValue: qualification.estimatedDealValue,
     nextSteps: qualification.nextSteps,
-    assignedTo: qualification.assignedTo
+    assignedTo: qualification.assignedTo,
+    suppressed: !!suppressed
+  };
+};
+
+/**
+ * Re-qualify an existing inbound lead after a repeat submission
+ *
+ * Started by `/api/submit` when `DEDUPE_REQUALIFY=true`. Reuses the stored
+ * research and enrichment instead of starting from scratch, scores the lead
+ * again with every submission's message, and reports the change in the
+ * lead's Slack thread.
+ */
+export const workflowRequalifyInbound = async (leadId: string) => {
+  'use workflow';
+
+  const lead = await stepGetLead(leadId);
+  if (
+    !lead ||
+    lead.source !== 'inbound' ||
+    !lead.research ||
+    !lead.enrichment
+  ) {
+    // The original workflow is still researching; it will qualify the lead
+    console.log('⏭️  Lead not ready for re-qualification - skipping');
+    return { leadId, requalified: false };
+  }
+
+  const data: FormSchema = {
+    ...lead.input,
+    message: [
+      lead.input.message,
+      ...(lead.timeline ?? []).map(
+        (submission) =>
+          `Repeat submission from ${submission.input.name} <${submission.input.email}>: ${submission.input.message}`
+      )
+    ].join('\n\n')
+  };
+
+  console.log('🎯 Re-qualifying lead after repeat submission...');
+  const previous = lead.qualification;
+  const scored = await stepQualify(data, lead.research, lead.enrichment);
+  const qualification = await stepAssignLead(
+    leadId,
+    data,
+    lead.enrichment,
+    scored
+  );
+  await stepNotifyAssignedRep(leadId, lead.assignedRepId);
+
+  await stepNotifyLeadThread(
+    leadId,
+    `🔁 Re-qualified after a repeat submission: ${previous ? `${previous.category} (${previous.leadScore}/100) → ` : ''}${qualification.category} (${qualification.leadScore}/100)`
+  );
+  await stepSyncLeadToCrm(leadId);
+
+  return {
+    leadId,
+    requalified: true,
+    category: qualification.category,
+    leadScore: qualification.leadScore
   };
 };
+
+/**
+ * Wait for Slack review decisions, then act on them durably
+ *
+ * A rejection with feedback regenerates the draft and posts it back into the
+ * thread for another round, up to `MAX_REVISION_ROUNDS`. Leads nobody reviews
+ * within `LEAD_REVIEW_TIMEOUT_HOURS` (default 72) are marked REVIEW_EXPIRED,
+ * unless they were approved or rejected elsewhere in the meantime.
+ */
+async function handleHumanReview(
+  leadId: string,
+  review: Hook<LeadReview>,
+  context: {
+    data: FormSchema;
+    research: string;
+    qualification: QualificationSchema;
+    enrichment: LeadEnrichmentSchema;
+    email: string;
+    slack: { channel: string; messageTs: string };
+  }
+) {
+  const timeoutHours = Number(process.env.LEAD_REVIEW_TIMEOUT_HOURS || 72);
+  const decisions = review[Symbol.asyncIterator]();
+  const revisions: EmailRevision[] = [];
+  let email = context.email;
+  let outcome: LeadStatus;
+
+  while (true) {
+    const next = await Promise.race([
+      decisions.next(),
+      sleep(timeoutHours * 60 * 60 * 1000).then(() => null)
+    ]);
+    const decision = next && !next.done ? next.value : null;
+
+    if (!decision) {
+      outcome = await stepExpireLeadReview(leadId);
+      if (outcome === 'REVIEW_EXPIRED') {
+        await stepNotifyLeadThread(
+          leadId,
+          `⏰ No review within ${timeoutHours} hours - this lead has expired and nothing was sent.`
+        );
+      }
+      break;
+    }
+
+    if (decision.decision === 'APPROVED') {
+      outcome = 'APPROVED';
+      await stepUpdateLead(leadId, { review: decision, status: outcome });
+
+      try {
+        await stepSendApprovedEmail(leadId);
+        outcome = 'SENT';
+        await stepNotifyLeadThread(
+          leadId,
+          `✅ Approved by <@${decision.reviewedBy}> - email sent`
+        );
+      } catch (error) {
+        await stepNotifyLeadThread(
+          leadId,
+          `⚠️ Approved by <@${decision.reviewedBy}> but the email could not be sent: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      break;
+    }
+
+    if (
+      decision.reason === 'NOT_A_LEAD' ||
+      revisions.length >= MAX_REVISION_ROUNDS
+    ) {
+      outcome = 'REJECTED';
+      await stepUpdateLead(leadId, { review: decision, status: outcome });
+      await stepNotifyLeadThread(
+        leadId,
+        `👎 Rejected by <@${decision.reviewedBy}> - nothing was sent`
+      );
+      break;
+    }
+
+    // Regenerate the draft with the reviewer's guidance and ask again
+    console.log(
+      `✏️  Draft rejected (${decision.reason}) - regenerating with reviewer feedback...`
+    );
+    // Reviewers may have edited the draft from Slack since it was posted
+    email = (await stepGetLead(leadId))?.email ?? email;
+    const revised = await stepWriteEmail(
+      context.data,
+      context.research,
+      context.qualification,
+      context.enrichment,
+      {
+        reason: decision.reason,
+        guidance: decision.feedback,
+        previousEmail: email
+      }
+    );
+    revisions.push({
+      previousEmail: email,
+      review: decision,
+      revisedAt: new Date().toISOString()
+    });
+    email = revised;
+
+    await stepUpdateLead(leadId, {
+      email,
+      review: decision,
+      revisions,
+      status: 'AWAITING_APPROVAL'
+    });
+    await stepPostRevisedDraft(
+      leadId,
+      context.slack,
+      email,
+      decision,
+      revisions.length
+    );
+  }
+
+  await stepSyncLeadToCrm(leadId);
+
+  return outcome;
+}
+
+/**
+ * Send each follow-up after its day offset (relative to the previous email)
+ *
+ * Stops as soon as the lead replies, books a meeting, unsubscribes or is
+ * marked closed (see `stopLeadSequence`).
+ */
+async function runFollowUpSequence(
+  leadId: string,
+  followUps: FollowUpEmail[]
+) {
+  for (const [index, followUp] of followUps.entries()) {
+    await sleep(followUp.dayOffset * DAY_MS);
+
+    let status = await stepSendFollowUp(leadId, index);
+    while (status === 'snoozed') {
+      const lead = await stepGetLead(leadId);
+      console.log(`😴 Lead out of office until ${lead?.snoozedUntil}`);
+      await sleep(new Date(lead?.snoozedUntil ?? Date.now()));
+      status = await stepSendFollowUp(leadId, index);
+    }
+    console.log(`📧 Follow-up ${index + 1}/${followUps.length}: ${status}`);
+
+    if (status === 'cancelled') {
+      console.log('🛑 Follow-up sequence stopped');
+      return;
+    }
+  }
+}
@@ -1,16 +1,28 @@
+import { start } from 'workflow/api';
 import {
+  assignLead,
+  describeLeadCompany,
+  describeLeadEmail,
   humanFeedback,
+  notifyAssignedRep,
   qualify,
   researchAgent,
   writeEmail,
   enrichLead,
-  generateFollowUpSequence
+  generateFollowUpSequence,
+  ReviewerFeedback,
+  sendFollowUpEmail
 } from '@/lib/services';
 import {
   FormSchema,
   QualificationSchema,
   LeadEnrichmentSchema
 } from '@/lib/types';
+import { sendSlackMessageWithButtons } from '@/lib/slack';
+import { getLeadStore, LeadReview } from '@/lib/lead-store';
+import { syncRepWorkload } from '@/lib/rep-workload';
+import { startLeadSla } from '@/lib/sla';
+import { workflowLeadSla } from '@/workflows/sla';
 
 /**
  * Step 1: Research the lead using the AI research agent
@@ -22,8 +34,8 @@ export const stepResearch = async (data: FormSchema) => {
     prompt: `Conduct comprehensive research on this inbound lead:
 
 Name: ${data.name}
-Email: ${data.email}
-Company: ${data.company || 'Not provided'}
+Email: ${describeLeadEmail(data)}
+Company: ${describeLeadCompany(data)}
 Phone: ${data.phone || 'Not provided'}
 Message: ${data.message}
 
@@ -71,18 +83,109 @@ export const stepQualify = async (
   return qualification;
 };
 
+/**
+ * Route the qualified lead to a sales rep and record the assignment
+ */
+export const stepAssignLead = async (
+  leadId: string,
+  data: FormSchema,
+  enrichment: LeadEnrichmentSchema,
+  qualification: QualificationSchema
+): Promise<QualificationSchema> => {
+  'use step';
+
+  return assignLead(leadId, data, enrichment, qualification);
+};
+
+/**
+ * DM the assigned rep a brief of the lead, unless they already had it
+ */
+export const stepNotifyAssignedRep = async (
+  leadId: string,
+  previousRepId?: string
+) => {
+  'use step';
+
+  if (!process.env.SLACK_BOT_TOKEN || !process.env.SLACK_SIGNING_SECRET) {
+    return false;
+  }
+
+  // A missed DM shouldn't hold up the lead; the channel message still goes out
+  try {
+    return await notifyAssignedRep(leadId, previousRepId);
+  } catch (error) {
+    console.warn(`⚠️  Could not DM the assigned rep for ${leadId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Start the lead's response SLA clock in its own workflow
+ *
+ * The clock runs alongside this workflow, which may be suspended on the
+ * Slack review for days. The clock's run id is saved on the SLA, so a
+ * retried step doesn't start a second clock, while one that failed before
+ * the clock started tries again.
+ */
+export const stepStartSlaClock = async (leadId: string) => {
+  'use step';
+
+  const store = getLeadStore();
+  const lead = await store.get(leadId);
+  if (!lead) return null;
+  if (lead.sla?.runId) return lead.sla.runId;
+
+  if (!(await startLeadSla(leadId))) return null;
+
+  const run = await start(workflowLeadSla, [leadId]);
+  await store.update(leadId, (current) => ({
+    sla: current.sla && { ...current.sla, runId: run.runId }
+  }));
+  return run.runId;
+};
+
+/**
+ * Expire a lead nobody reviewed in time
+ *
+ * Only a lead still `AWAITING_APPROVAL` is expired; one approved or rejected
+ * outside this workflow in the meantime keeps its status. Returns the lead's
+ * resulting status.
+ */
+export const stepExpireLeadReview = async (leadId: string) => {
+  'use step';
+
+  const lead = await getLeadStore().update(leadId, (current) =>
+    current.status === 'AWAITING_APPROVAL' ? { status: 'REVIEW_EXPIRED' } : {}
+  );
+
+  // Expiring a lead frees up its rep
+  if (lead.status === 'REVIEW_EXPIRED') {
+    await syncRepWorkload(lead);
+  }
+  return lead.status;
+};
+
 /**
  * Step 4: Generate personalized outreach email
+ *
+ * When reviewer feedback is provided, the previous draft is rewritten instead.
  */
 export const stepWriteEmail = async (
   data: FormSchema,
   research: string,
   qualification: QualificationSchema,
-  enrichment: LeadEnrichmentSchema
+  enrichment: LeadEnrichmentSchema,
+  feedback?: ReviewerFeedback
 ) => {
   'use step';
 
-  const email = await writeEmail(data, research, qualification, enrichment);
+  const email = await writeEmail(
+    data,
+    research,
+    qualification,
+    enrichment,
+    feedback
+  );
   return email;
 };
 
@@ -115,7 +218,8 @@ export const stepHumanFeedback = async (
   research: string,
   email: string,
   qualification: QualificationSchema,
-  enrichment: LeadEnrichmentSchema
+  enrichment: LeadEnrichmentSchema,
+  leadId?: string
 ) => {
   'use step';
 
@@ -131,7 +235,56 @@ export const stepHumanFeedback = async (
     research,
     email,
     qualification,
-    enrichment
+    enrichment,
+    leadId
   );
   return slackMessage;
 };
+
+/**
+ * Post a regenerated draft into the lead's Slack thread for another review round
+ */
+export const stepPostRevisedDraft = async (
+  leadId: string,
+  slack: { channel: string; messageTs: string },
+  email: string,
+  review: LeadReview,
+  round: number
+) => {
+  'use step';
+
+  if (!process.env.SLACK_BOT_TOKEN || !process.env.SLACK_SIGNING_SECRET) {
+    return;
+  }
+
+  const message = `✏️ *Revised draft (round ${round})*
+Rejected by <@${review.reviewedBy}> - ${review.reason?.replace(/_/g, ' ').toLowerCase() || 'no reason given'}
+${review.feedback ? `> ${review.feedback}\n` : ''}
+\`\`\`${email}\`\`\`
+
+*Please approve or reject the revised email*`;
+
+  return await sendSlackMessageWithButtons(
+    slack.channel,
+    message,
+    leadId,
+    slack.messageTs,
+    undefined,
+    round
+  );
+};
+
+/**
+ * Step 8: Send one follow-up from the stored sequence
+ *
+ * Re-reads the lead first so replies, meetings, unsubscribes and closes
+ * recorded since the last send cancel the rest of the sequence.
+ */
+export const stepSendFollowUp = async (leadId: string, index: number) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) return 'cancelled';
+
+  return await sendFollowUpEmail(lead, index);
+};
@@ -0,0 +1,48 @@
+import { sleep } from 'workflow';
+import {
+  stepCompleteBatch,
+  stepCountActiveBatchRuns,
+  stepStartBatchRows
+} from './steps';
+
+/**
+ * How often the batch checks for free slots
+ */
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Outbound batch workflow
+ *
+ * Starts `workflowOutbound` for every accepted row of a batch, keeping at
+ * most `concurrency` prospects in research, qualification and drafting at a
+ * time. The batch is completed once every row has been started; the
+ * individual outbound workflows keep running their own sequences.
+ */
+export const workflowOutboundBatch = async (
+  batchId: string,
+  concurrency: number
+) => {
+  'use workflow';
+
+  console.log(
+    `📦 Starting outbound batch ${batchId} (concurrency ${concurrency})`
+  );
+
+  while (true) {
+    const active = await stepCountActiveBatchRuns(batchId);
+    const remaining = await stepStartBatchRows(
+      batchId,
+      Math.max(concurrency - active, 0)
+    );
+
+    if (remaining === 0) break;
+
+    console.log(`⏳ ${active} prospects in progress, ${remaining} queued`);
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  await stepCompleteBatch(batchId);
+  console.log(`✅ Outbound batch ${batchId} fully started`);
+
+  return { batchId };
+};
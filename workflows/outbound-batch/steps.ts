@@ -0,0 +1,84 @@
+import { getRun, start } from 'workflow/api';
+import {
+  getBatchLeads,
+  getOutboundBatch,
+  updateOutboundBatch
+} from '@/lib/outbound-batch';
+import { workflowOutbound } from '@/workflows/outbound';
+
+/**
+ * Count batch prospects still being researched, qualified and drafted
+ *
+ * A run stops counting once its lead leaves PROCESSING (e.g. it is awaiting
+ * review or disqualified) or the run itself has ended.
+ */
+export const stepCountActiveBatchRuns = async (batchId: string) => {
+  'use step';
+
+  const batch = await getOutboundBatch(batchId);
+  if (!batch) return 0;
+
+  const leads = await getBatchLeads(batch);
+  let active = 0;
+
+  for (const row of batch.rows) {
+    if (row.status !== 'started' || !row.workflowRunId) continue;
+
+    const lead = leads.get(row.workflowRunId);
+    if (lead && lead.status !== 'PROCESSING') continue;
+
+    const status = await getRun(row.workflowRunId).status;
+    if (status === 'pending' || status === 'running') active++;
+  }
+
+  return active;
+};
+
+/**
+ * Start workflows for up to `limit` queued rows
+ *
+ * Each row is recorded as soon as its run starts so a retried step never
+ * starts the same prospect twice. Returns how many rows are still queued.
+ */
+export const stepStartBatchRows = async (batchId: string, limit: number) => {
+  'use step';
+
+  const batch = await getOutboundBatch(batchId);
+  if (!batch) return 0;
+
+  const queued = batch.rows.filter((row) => row.status === 'queued');
+
+  for (const row of queued.slice(0, limit)) {
+    let update: Partial<typeof row>;
+    try {
+      const run = await start(workflowOutbound, [row.prospect!]);
+      update = {
+        status: 'started',
+        workflowRunId: run.runId,
+        startedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      update = {
+        status: 'failed',
+        errors: [error instanceof Error ? error.message : String(error)]
+      };
+    }
+
+    await updateOutboundBatch(batchId, (current) => ({
+      rows: current.rows.map((r) =>
+        r.row === row.row ? { ...r, ...update } : r
+      )
+    }));
+  }
+
+  return Math.max(queued.length - limit, 0);
+};
+
+/**
+ * Mark the batch completed once every row has been started or rejected
+ */
+export const stepCompleteBatch = async (batchId: string) => {
+  'use step';
+
+  await updateOutboundBatch(batchId, () => ({ status: 'completed' }));
+};
@@ -1,11 +1,31 @@
 import { z } from 'zod';
+import { Hook, sleep } from 'workflow';
 import {
   stepResearchProspect,
   stepQualifyProspect,
   stepGenerateOutboundEmail,
   stepGenerateMultiTouchSequence,
-  stepReviewOutbound
+  stepReviewOutbound,
+  stepExecuteTouchPoint,
+  TouchPoint
 } from './steps';
+import {
+  stepCheckSuppression,
+  stepCreateLead,
+  stepGetLead,
+  stepNotifyLeadThread,
+  stepSendApprovedEmail,
+  stepSyncLeadToCrm,
+  stepUpdateLead
+} from '@/workflows/shared/steps';
+import {
+  leadReviewHook,
+  leadReviewToken,
+  sequenceResumeHook,
+  sequenceResumeToken
+} from '@/workflows/shared/hooks';
+import type { LeadReview } from '@/lib/lead-store';
+import { LeadStatus } from '@/lib/types';
 
 /**
  * Outbound prospect schema
@@ -29,6 +49,8 @@ export const outboundProspectSchema = z.object({
 
 export type OutboundProspect = z.infer<typeof outboundProspectSchema>;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Outbound lead generation workflow
  *
@@ -38,6 +60,11 @@ export type OutboundProspect = z.infer<typeof outboundProspectSchema>;
  * 3. Generate personalized cold outreach email
  * 4. Create multi-touch sequence (email, linkedin, follow-ups)
  * 5. Send to Slack for human review before sending
+ * 6. On approval, send the initial email and execute the sequence: email
+ *    touches are sent, LinkedIn/phone/video touches become rep tasks
+ *
+ * Every step's output is persisted on the lead record (see `lib/lead-store.ts`).
+ * Prospects on the suppression list are skipped before any research is done.
  *
  * Use cases:
  * - Cold outreach to target accounts
@@ -51,13 +78,29 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
 
   console.log(`🚀 Starting outbound workflow for ${prospect.name} at ${prospect.company}`);
 
+  const leadId = await stepCreateLead({ source: 'outbound', input: prospect });
+
+  const suppressed = await stepCheckSuppression(leadId);
+  if (suppressed) {
+    console.log(`🚫 ${prospect.email} is suppressed (${suppressed}) - skipping`);
+    return {
+      leadId,
+      prospectName: prospect.name,
+      company: prospect.company,
+      qualified: false,
+      reason: `Suppressed (${suppressed})`
+    };
+  }
+
   // Step 1: Deep research on prospect and company
   console.log('🔍 Step 1: Researching prospect and company...');
   const research = await stepResearchProspect(prospect);
+  await stepUpdateLead(leadId, { research });
 
   // Step 2: Qualify if this prospect is worth outreach
   console.log('🎯 Step 2: Qualifying prospect fit...');
   const qualification = await stepQualifyProspect(prospect, research);
+  await stepUpdateLead(leadId, { qualification });
 
   // Only proceed if prospect is qualified for outreach
   if (qualification.shouldReachOut) {
@@ -72,6 +115,7 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
       research,
       qualification
     );
+    await stepUpdateLead(leadId, { email: initialEmail });
 
     // Step 4: Generate multi-touch sequence
     console.log('📧 Step 4: Creating multi-touch outreach sequence...');
@@ -81,6 +125,13 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
       qualification,
       initialEmail
     );
+    await stepUpdateLead(leadId, {
+      sequence,
+      touchPoints: sequence.touchPoints.map((touchPoint) => ({
+        ...touchPoint,
+        status: 'pending' as const
+      }))
+    });
 
     console.log(
       `📬 Generated complete outreach sequence: ${sequence.touchPoints.length} touchpoints`
@@ -88,11 +139,30 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
 
     // Step 5: Send to Slack for review
     console.log('👤 Step 5: Sending to Slack for approval...');
-    await stepReviewOutbound(prospect, research, qualification, sequence);
+    const review = leadReviewHook.create({ token: leadReviewToken(leadId) });
+    const slack = await stepReviewOutbound(
+      prospect,
+      research,
+      qualification,
+      sequence,
+      leadId
+    );
+    await stepUpdateLead(leadId, { slack, status: 'AWAITING_APPROVAL' });
+
+    if (slack) {
+      const decision = await handleOutboundReview(leadId, review);
+      console.log(`✅ Review outcome: ${decision}`);
 
-    console.log('✅ Outbound workflow complete - awaiting human approval');
+      if (decision === 'SENT') {
+        console.log('📨 Step 6: Executing outreach sequence...');
+        await runTouchPointSequence(leadId, sequence.touchPoints);
+      }
+    }
+
+    console.log('✅ Outbound workflow complete');
 
     return {
+      leadId,
       prospectName: prospect.name,
       company: prospect.company,
       qualified: true,
@@ -102,8 +172,10 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
     };
   } else {
     console.log(`❌ Prospect not qualified for outreach: ${qualification.reason}`);
+    await stepUpdateLead(leadId, { status: 'DISQUALIFIED' });
 
     return {
+      leadId,
       prospectName: prospect.name,
       company: prospect.company,
       qualified: false,
@@ -111,3 +183,134 @@ export const workflowOutbound = async (prospect: OutboundProspect) => {
     };
   }
 };
+
+/**
+ * Wait for the Slack review decision and send the initial email on approval
+ */
+async function handleOutboundReview(
+  leadId: string,
+  review: Hook<LeadReview>
+): Promise<LeadStatus> {
+  const { outcome, decision } = await awaitOutboundReview(leadId, review);
+  if (outcome !== 'APPROVED' || !decision) return outcome;
+
+  return sendOutboundInitialEmail(leadId, decision);
+}
+
+/**
+ * Wait for the Slack review decision
+ *
+ * Sequences nobody reviews within `LEAD_REVIEW_TIMEOUT_HOURS` (default 72)
+ * are marked REVIEW_EXPIRED. Approved leads are marked APPROVED and returned
+ * with the decision; sending is left to the caller.
+ */
+export async function awaitOutboundReview(
+  leadId: string,
+  review: Hook<LeadReview>
+): Promise<{ outcome: LeadStatus; decision?: LeadReview }> {
+  const timeoutHours = Number(process.env.LEAD_REVIEW_TIMEOUT_HOURS || 72);
+
+  const decision = await Promise.race([
+    review,
+    sleep(timeoutHours * 60 * 60 * 1000).then(() => null)
+  ]);
+
+  if (decision?.decision === 'APPROVED') {
+    await stepUpdateLead(leadId, { review: decision, status: 'APPROVED' });
+    return { outcome: 'APPROVED', decision };
+  }
+
+  let outcome: LeadStatus;
+
+  if (!decision) {
+    outcome = 'REVIEW_EXPIRED';
+    await stepUpdateLead(leadId, { status: outcome });
+    await stepNotifyLeadThread(
+      leadId,
+      `⏰ No review within ${timeoutHours} hours - this sequence has expired and nothing was sent.`
+    );
+  } else {
+    outcome = 'REJECTED';
+    await stepUpdateLead(leadId, { review: decision, status: outcome });
+    await stepNotifyLeadThread(
+      leadId,
+      `👎 Rejected by <@${decision.reviewedBy}> - nothing was sent`
+    );
+  }
+
+  await stepSyncLeadToCrm(leadId);
+
+  return { outcome };
+}
+
+/**
+ * Send the approved initial email and report the result in the Slack thread
+ */
+export async function sendOutboundInitialEmail(
+  leadId: string,
+  decision: LeadReview
+): Promise<LeadStatus> {
+  let outcome: LeadStatus = 'APPROVED';
+
+  try {
+    await stepSendApprovedEmail(leadId);
+    outcome = 'SENT';
+    await stepNotifyLeadThread(
+      leadId,
+      `✅ Approved by <@${decision.reviewedBy}> - initial email sent, sequence started`
+    );
+  } catch (error) {
+    await stepNotifyLeadThread(
+      leadId,
+      `⚠️ Approved by <@${decision.reviewedBy}> but the email could not be sent: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  await stepSyncLeadToCrm(leadId);
+
+  return outcome;
+}
+
+/**
+ * Execute each touchpoint on its sequence day (counted from the initial email,
+ * sent at `startedAt`)
+ *
+ * While the sequence is paused, the due touchpoint waits for a resume signal
+ * (`POST /api/leads/:id/sequence`) and is then executed immediately.
+ */
+export async function runTouchPointSequence(
+  leadId: string,
+  touchPoints: TouchPoint[],
+  startedAt = Date.now()
+) {
+  const resumes = sequenceResumeHook
+    .create({ token: sequenceResumeToken(leadId) })
+    [Symbol.asyncIterator]();
+
+  for (const [index, touchPoint] of touchPoints.entries()) {
+    const waitMs = startedAt + touchPoint.day * DAY_MS - Date.now();
+    if (waitMs > 0) await sleep(waitMs);
+
+    let status = await stepExecuteTouchPoint(leadId, index);
+    while (status === 'paused' || status === 'snoozed') {
+      if (status === 'paused') {
+        console.log('⏸️  Sequence paused - waiting to resume...');
+        await resumes.next();
+      } else {
+        const lead = await stepGetLead(leadId);
+        console.log(`😴 Prospect out of office until ${lead?.snoozedUntil}`);
+        await sleep(new Date(lead?.snoozedUntil ?? Date.now()));
+      }
+      status = await stepExecuteTouchPoint(leadId, index);
+    }
+
+    console.log(
+      `📍 Touch ${index + 1}/${touchPoints.length} (day ${touchPoint.day}, ${touchPoint.channel}): ${status}`
+    );
+
+    if (status === 'stopped') {
+      console.log('🛑 Outreach sequence stopped');
+      return;
+    }
+  }
+}
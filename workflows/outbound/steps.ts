@@ -1,8 +1,24 @@
-import { researchAgent } from '@/lib/services';
+import {
+  enforceSuppression,
+  researchAgent,
+  sendEmail
+} from '@/lib/services';
 import { generateText, generateObject } from 'ai';
 import { OutboundProspect } from './index';
 import { z } from 'zod';
-import { sendSlackMessageWithButtons } from '@/lib/slack';
+import {
+  postSlackThreadMessage,
+  sendSlackMessageWithButtons,
+  slackApp
+} from '@/lib/slack';
+import {
+  getLeadStore,
+  isLeadSnoozed,
+  sequenceStopStatuses,
+  TouchPointState
+} from '@/lib/lead-store';
+import { parseEmailDraft } from '@/lib/email';
+import { createRepTask } from '@/lib/tasks';
 
 /**
  * Prospect qualification schema
@@ -17,6 +33,10 @@ const prospectQualificationSchema = z.object({
   personalizationAngles: z.array(z.string())
 });
 
+export type ProspectQualification = z.infer<
+  typeof prospectQualificationSchema
+>;
+
 /**
  * Multi-touch sequence schema
  */
@@ -34,6 +54,10 @@ const multiTouchSequenceSchema = z.object({
   expectedResponseRate: z.string()
 });
 
+export type MultiTouchSequence = z.infer<typeof multiTouchSequenceSchema>;
+
+export type TouchPoint = MultiTouchSequence['touchPoints'][number];
+
 /**
  * Step 1: Research prospect using AI agent
  */
@@ -115,7 +139,8 @@ Provide:
 export const stepGenerateOutboundEmail = async (
   prospect: OutboundProspect,
   research: string,
-  qualification: z.infer<typeof prospectQualificationSchema>
+  qualification: z.infer<typeof prospectQualificationSchema>,
+  colleagueEmails: string[] = []
 ) => {
   'use step';
 
@@ -139,7 +164,15 @@ Cold Email Best Practices:
 9. Personalization angles: ${qualification.personalizationAngles.join(', ')}
 
 Campaign Type: ${prospect.campaignType}
-
+${
+  colleagueEmails.length > 0
+    ? `
+OTHER STAKEHOLDERS:
+Colleagues at ${prospect.company} are receiving the emails below. Write for this person's role, use a different angle and subject line, and do not reuse their wording:
+${colleagueEmails.join('\n---\n')}
+`
+    : ''
+}
 Do NOT:
 - Use generic templates
 - Talk too much about yourself/company
@@ -212,7 +245,8 @@ export const stepReviewOutbound = async (
   prospect: OutboundProspect,
   research: string,
   qualification: z.infer<typeof prospectQualificationSchema>,
-  sequence: z.infer<typeof multiTouchSequenceSchema>
+  sequence: z.infer<typeof multiTouchSequenceSchema>,
+  leadId?: string
 ) => {
   'use step';
 
@@ -261,5 +295,156 @@ ${research.slice(0, 400)}...
 
   const slackChannel = process.env.SLACK_CHANNEL_ID || '';
 
-  return await sendSlackMessageWithButtons(slackChannel, message);
+  return await sendSlackMessageWithButtons(slackChannel, message, leadId);
+};
+
+/**
+ * Step 6: Execute one touchpoint of the approved sequence
+ *
+ * Email touches are sent through the email transport (the day 0 email is the
+ * approved initial email); LinkedIn, phone and video touches become rep tasks.
+ * Returns `paused` without touching state while the sequence is paused,
+ * `snoozed` while the prospect is out of office, and `stopped` once the
+ * prospect replied, booked, unsubscribed or was closed. The touchpoint is
+ * marked `in_progress` before it is executed, and one that is already done or
+ * in progress is left alone, so retries don't repeat it; failed sends and
+ * task creations are recorded as `failed` instead of failing the step.
+ */
+export const stepExecuteTouchPoint = async (
+  leadId: string,
+  index: number
+): Promise<
+  TouchPointState['status'] | 'paused' | 'snoozed' | 'stopped'
+> => {
+  'use step';
+
+  const store = getLeadStore();
+  const lead = await store.get(leadId);
+  if (!lead || lead.source !== 'outbound' || !lead.touchPoints?.[index]) {
+    return 'stopped';
+  }
+
+  const touchPoints = [...lead.touchPoints];
+  const touchPoint = touchPoints[index];
+  if (touchPoint.status !== 'pending') return touchPoint.status;
+
+  if (sequenceStopStatuses.includes(lead.status)) {
+    await store.update(leadId, {
+      touchPoints: touchPoints.map((tp) =>
+        tp.status === 'pending' ? { ...tp, status: 'skipped' as const } : tp
+      )
+    });
+    return 'stopped';
+  }
+
+  if (await enforceSuppression(lead)) return 'stopped';
+  if (lead.sequencePaused) return 'paused';
+  if (isLeadSnoozed(lead)) return 'snoozed';
+
+  // Mark the touchpoint in progress first, so a retried step never sends it
+  // twice
+  let claimed = false;
+  const current = await store.update(leadId, (latest) => {
+    const latestTouchPoints =
+      latest.source === 'outbound' ? latest.touchPoints : undefined;
+    if (latestTouchPoints?.[index]?.status !== 'pending') return {};
+
+    claimed = true;
+    return {
+      touchPoints: latestTouchPoints.map((tp, i) =>
+        i === index ? { ...tp, status: 'in_progress' as const } : tp
+      )
+    };
+  });
+  if (!claimed) {
+    return current.source === 'outbound' && current.touchPoints?.[index]
+      ? current.touchPoints[index].status
+      : 'stopped';
+  }
+
+  const completedAt = new Date().toISOString();
+  const initial = lead.sentEmails?.find((sent) => sent.status === 'sent');
+
+  if (touchPoint.channel === 'email' && touchPoint.day === 0) {
+    // Covered by the approved initial email
+    touchPoints[index] = {
+      ...touchPoint,
+      status: initial ? 'sent' : 'skipped',
+      completedAt
+    };
+  } else if (touchPoint.channel === 'email') {
+    try {
+      const subject =
+        touchPoint.subject ||
+        `Re: ${parseEmailDraft(lead.email ?? '').subject}`;
+      const result = await sendEmail({
+        to: lead.input.email,
+        subject,
+        text: touchPoint.content,
+        inReplyTo: initial?.messageId,
+        references: initial?.messageId ? [initial.messageId] : undefined
+      });
+      touchPoints[index] = { ...touchPoint, status: 'sent', completedAt };
+      await store.update(leadId, (latest) => ({
+        sentEmails: [
+          ...(latest.sentEmails ?? []),
+          { to: lead.input.email, subject, status: 'sent', ...result }
+        ]
+      }));
+    } catch (error) {
+      touchPoints[index] = {
+        ...touchPoint,
+        status: 'failed',
+        completedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  } else {
+    try {
+      const task = await createRepTask({
+        leadId,
+        channel: touchPoint.channel,
+        title: `Day ${touchPoint.day} ${touchPoint.channel} touch: ${lead.input.name} (${lead.input.company})`,
+        content: touchPoint.content,
+        objective: touchPoint.objective,
+        // The routed rep, or whoever approved the sequence
+        assignee: lead.assignedRepId ?? lead.review?.reviewedBy,
+        dueAt: completedAt
+      });
+      touchPoints[index] = {
+        ...touchPoint,
+        status: 'sent',
+        completedAt,
+        taskId: task.id
+      };
+    } catch (error) {
+      touchPoints[index] = {
+        ...touchPoint,
+        status: 'failed',
+        completedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    // The task exists either way; a missed thread post shouldn't fail the touch
+    if (touchPoints[index].status === 'sent' && lead.slack && slackApp) {
+      try {
+        await postSlackThreadMessage(
+          lead.slack.channel,
+          lead.slack.messageTs,
+          `📋 *Rep task - ${touchPoint.channel.toUpperCase()} (day ${touchPoint.day})*\nObjective: ${touchPoint.objective}\n\`\`\`${touchPoint.content}\`\`\``
+        );
+      } catch (error) {
+        console.warn(`⚠️  Could not post the rep task for ${leadId}:`, error);
+      }
+    }
+  }
+
+  await store.update(leadId, (latest) => ({
+    touchPoints: (
+      (latest.source === 'outbound' && latest.touchPoints) ||
+      touchPoints
+    ).map((tp, i) => (i === index ? touchPoints[index] : tp))
+  }));
+  return touchPoints[index].status;
 };
@@ -0,0 +1,74 @@
+import { ReplyCategory, ReplyClassification } from '@/lib/types';
+import {
+  stepAlertRep,
+  stepApplyReplyClassification,
+  stepClassifyReply
+} from './steps';
+import { stepGetLead, stepSyncLeadToCrm } from '@/workflows/shared/steps';
+
+const replyAlerts: Record<ReplyCategory, string> = {
+  INTERESTED: '🔥 *Interested reply* - sequence stopped, follow up now',
+  NOT_NOW: '🕒 *Not now* - sequence stopped, consider a later check-in',
+  OUT_OF_OFFICE: '😴 *Out of office* - sequence snoozed',
+  WRONG_PERSON: '🔀 *Wrong person* - sequence stopped',
+  UNSUBSCRIBE: '🚫 *Unsubscribed* - no further emails will be sent',
+  OBJECTION: '⚔️ *Objection* - sequence stopped, handle the objection'
+};
+
+/**
+ * Reply handling workflow
+ *
+ * Started by the inbound email webhook for every reply matched to a lead:
+ * 1. Classify the reply (interested, not now, out of office, wrong person,
+ *    unsubscribe, objection)
+ * 2. Stop the lead's sequence, snooze it until after the out-of-office
+ *    return date, or mark the lead unsubscribed
+ * 3. Alert the assigned rep in Slack and sync the outcome to the CRM
+ */
+export const workflowReply = async (leadId: string, replyId: string) => {
+  'use workflow';
+
+  const classification = await stepClassifyReply(leadId, replyId);
+  console.log(`📨 Reply classified as ${classification.category}`);
+
+  const status = await stepApplyReplyClassification(
+    leadId,
+    replyId,
+    classification
+  );
+
+  const lead = await stepGetLead(leadId);
+  await stepAlertRep(
+    leadId,
+    formatReplyAlert(
+      classification,
+      lead ? `${lead.input.name} <${lead.input.email}>` : leadId,
+      lead?.snoozedUntil
+    )
+  );
+  await stepSyncLeadToCrm(leadId);
+
+  return {
+    leadId,
+    replyId,
+    category: classification.category,
+    status
+  };
+};
+
+function formatReplyAlert(
+  classification: ReplyClassification,
+  from: string,
+  snoozedUntil?: string
+) {
+  const details = [
+    `From: ${from}`,
+    `Summary: ${classification.summary}`,
+    classification.referral && `Referred to: ${classification.referral}`,
+    classification.category === 'OUT_OF_OFFICE' &&
+      snoozedUntil &&
+      `Resuming: ${snoozedUntil.slice(0, 10)}`
+  ].filter(Boolean);
+
+  return `${replyAlerts[classification.category]}\n${details.join('\n')}`;
+}
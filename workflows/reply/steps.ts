@@ -0,0 +1,60 @@
+import { FatalError } from 'workflow';
+import { applyReplyClassification, classifyReply } from '@/lib/services';
+import { alertLeadOwner } from '@/lib/slack';
+import { getLeadStore } from '@/lib/lead-store';
+import { ReplyClassification } from '@/lib/types';
+
+/**
+ * Step 1: Classify the reply with the LLM
+ */
+export const stepClassifyReply = async (leadId: string, replyId: string) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  const reply = lead?.replies?.find((r) => r.id === replyId);
+  if (!lead || !reply) {
+    throw new FatalError(`Reply ${replyId} not found on lead ${leadId}`);
+  }
+
+  return await classifyReply(lead, reply);
+};
+
+/**
+ * Step 2: Stop, snooze or unsubscribe the lead's sequence
+ */
+export const stepApplyReplyClassification = async (
+  leadId: string,
+  replyId: string,
+  classification: ReplyClassification
+) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) {
+    throw new FatalError(`Lead not found: ${leadId}`);
+  }
+
+  const updated = await applyReplyClassification(
+    lead,
+    replyId,
+    classification
+  );
+  return updated.status;
+};
+
+/**
+ * Step 3: Tell the assigned rep about the reply in Slack
+ */
+export const stepAlertRep = async (leadId: string, text: string) => {
+  'use step';
+
+  if (!process.env.SLACK_BOT_TOKEN || !process.env.SLACK_SIGNING_SECRET) {
+    console.log(`Slack not configured. Would alert rep: ${text}`);
+    return;
+  }
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) return;
+
+  await alertLeadOwner(lead, text);
+};
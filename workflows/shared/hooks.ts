@@ -0,0 +1,26 @@
+import { defineHook } from 'workflow';
+import type { LeadReview } from '@/lib/lead-store';
+
+/**
+ * Resumes a workflow waiting on human review of a lead's Slack message
+ *
+ * Created by the workflow before posting to Slack, resumed by the
+ * `lead_approved`/`lead_rejected` Slack actions.
+ */
+export const leadReviewHook = defineHook<LeadReview>();
+
+/**
+ * Deterministic hook token for a lead, reconstructable from the Slack button value
+ */
+export function leadReviewToken(leadId: string) {
+  return `lead-review:${leadId}`;
+}
+
+/**
+ * Wakes a paused outbound sequence once it has been resumed
+ */
+export const sequenceResumeHook = defineHook<{ resumedBy?: string }>();
+
+export function sequenceResumeToken(leadId: string) {
+  return `lead-sequence:${leadId}`;
+}
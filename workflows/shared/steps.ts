@@ -0,0 +1,140 @@
+import { FatalError, getWorkflowMetadata } from 'workflow';
+import { getLeadStore, LeadPatch, NewLeadRecord } from '@/lib/lead-store';
+import { parseEmailDraft } from '@/lib/email';
+import {
+  enforceSuppression,
+  sendApprovedLeadEmail,
+  syncLeadToCrm
+} from '@/lib/services';
+import { SuppressedRecipientError } from '@/lib/suppression';
+import { postSlackThreadMessage } from '@/lib/slack';
+import { syncRepWorkload } from '@/lib/rep-workload';
+
+/**
+ * Create the stored lead record for this workflow run
+ *
+ * Safe to retry: an existing record for the same run and address is reused.
+ */
+export const stepCreateLead = async (
+  lead: NewLeadRecord & { workflowRunId?: never }
+) => {
+  'use step';
+
+  const { workflowRunId } = getWorkflowMetadata();
+  const store = getLeadStore();
+
+  const [existing] = await store.find({
+    workflowRunId,
+    email: lead.input.email
+  });
+  if (existing) return existing.id;
+
+  const record = await store.create({
+    ...lead,
+    workflowRunId
+  } as NewLeadRecord);
+  return record.id;
+};
+
+/**
+ * Read the stored lead record (e.g. to pick up edits made from Slack)
+ */
+export const stepGetLead = async (leadId: string) => {
+  'use step';
+
+  return getLeadStore().get(leadId);
+};
+
+/**
+ * Persist step output on the stored lead record
+ */
+export const stepUpdateLead = async (leadId: string, patch: LeadPatch) => {
+  'use step';
+
+  const lead = await getLeadStore().update(leadId, patch);
+
+  // Closing or disqualifying a lead frees up its rep
+  if (patch.status) {
+    await syncRepWorkload(lead);
+  }
+};
+
+/**
+ * Deliver the stored email draft after approval
+ *
+ * Transport failures are retried; a missing or malformed draft is not.
+ */
+export const stepSendApprovedEmail = async (leadId: string) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) {
+    throw new FatalError(`Lead not found: ${leadId}`);
+  }
+  if (lead.status === 'SENT') {
+    // Delivered on a previous attempt
+    return;
+  }
+  if (!lead.email) {
+    throw new FatalError(`Lead ${leadId} has no email draft`);
+  }
+
+  try {
+    parseEmailDraft(lead.email);
+  } catch (error) {
+    throw new FatalError((error as Error).message);
+  }
+
+  try {
+    await sendApprovedLeadEmail(lead);
+  } catch (error) {
+    if (error instanceof SuppressedRecipientError) {
+      throw new FatalError(error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Check the lead against the suppression list before doing any outreach work
+ *
+ * Suppressed leads are marked UNSUBSCRIBED (or BOUNCED) and the entry's
+ * reason is returned; otherwise returns null.
+ */
+export const stepCheckSuppression = async (leadId: string) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) return null;
+
+  const entry = await enforceSuppression(lead);
+  return entry?.reason ?? null;
+};
+
+/**
+ * Write the lead outcome back to the CRM
+ */
+export const stepSyncLeadToCrm = async (leadId: string) => {
+  'use step';
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead) return;
+
+  await syncLeadToCrm(lead);
+};
+
+/**
+ * Reply in the thread of the lead's Slack review message
+ */
+export const stepNotifyLeadThread = async (leadId: string, text: string) => {
+  'use step';
+
+  if (!process.env.SLACK_BOT_TOKEN || !process.env.SLACK_SIGNING_SECRET) {
+    return;
+  }
+
+  const lead = await getLeadStore().get(leadId);
+  if (!lead?.slack) return;
+
+  await postSlackThreadMessage(lead.slack.channel, lead.slack.messageTs, text);
+};
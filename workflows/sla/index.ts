@@ -0,0 +1,40 @@
+import { sleep } from 'workflow';
+import { stepEscalateSla, stepStartSla, stepWarnSla } from './steps';
+
+/**
+ * Lead response SLA workflow
+ *
+ * Times a lead's response window from submission, based on its priority:
+ * 1. Start the SLA clock on the lead record
+ * 2. At the warning threshold (`SLA_WARNING_RATIO` of the window), DM the
+ *    assigned rep
+ * 3. At the deadline, mark the SLA breached and escalate to
+ *    `SLA_ESCALATION_CHANNEL_ID` or the team leads
+ *
+ * Both checks are skipped once a human acted on the lead (see
+ * `recordFirstHumanAction`) or the lead was closed.
+ */
+export const workflowLeadSla = async (leadId: string) => {
+  'use workflow';
+
+  const sla = await stepStartSla(leadId);
+  if (!sla) {
+    console.log(`⏭️  Lead ${leadId} has no priority yet - no SLA`);
+    return { leadId, breached: false };
+  }
+
+  console.log(
+    `⏱️  SLA started for ${leadId} (${sla.priority}, due ${sla.dueAt})`
+  );
+
+  await sleep(new Date(sla.warnAt));
+  await stepWarnSla(leadId);
+
+  await sleep(new Date(sla.dueAt));
+  const breached = await stepEscalateSla(leadId);
+  if (breached) {
+    console.log(`🚨 SLA breached for ${leadId}`);
+  }
+
+  return { leadId, breached: !!breached };
+};
@@ -0,0 +1,39 @@
+import { escalateSlaBreach, warnSlaAtRisk } from '@/lib/services';
+import { startLeadSla } from '@/lib/sla';
+
+/**
+ * Start the lead's SLA clock
+ */
+export const stepStartSla = async (leadId: string) => {
+  'use step';
+
+  return startLeadSla(leadId);
+};
+
+/**
+ * Warn the assigned rep that the SLA is about to run out
+ */
+export const stepWarnSla = async (leadId: string) => {
+  'use step';
+
+  if (!process.env.SLACK_BOT_TOKEN || !process.env.SLACK_SIGNING_SECRET) {
+    return false;
+  }
+
+  // A missed warning shouldn't stop the clock; the breach still escalates
+  try {
+    return await warnSlaAtRisk(leadId);
+  } catch (error) {
+    console.warn(`⚠️  Could not send the SLA warning for ${leadId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Mark the SLA as breached and escalate it if nobody responded in time
+ */
+export const stepEscalateSla = async (leadId: string) => {
+  'use step';
+
+  return escalateSlaBreach(leadId);
+};